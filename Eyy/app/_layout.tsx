@@ -1,8 +1,10 @@
+import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { useColorScheme } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { AuthProvider } from '../lib/AuthContext';
+import { updateRoadNetworkExtract } from '../utils/roadNetworkExtract';
 
 // Import polyfills first
 import 'react-native-url-polyfill/auto';
@@ -12,6 +14,13 @@ import '../lib/polyfills';
 function RootLayout() {
   const colorScheme = useColorScheme();
 
+  // Pick up newer offline road network extracts in the background
+  useEffect(() => {
+    updateRoadNetworkExtract()
+      .then(updated => updated && console.log('Offline road network updated'))
+      .catch(error => console.warn('Road network update check failed:', error));
+  }, []);
+
   return (
     <AuthProvider>
       <GestureHandlerRootView style={{ flex: 1 }}>
@@ -1,10 +1,273 @@
-import React, { useState } from 'react';
-import { View, StyleSheet, Text, SafeAreaView, Platform, StatusBar, Image, TouchableOpacity } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, Text, SafeAreaView, Platform, StatusBar, Image, TouchableOpacity, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Link } from 'expo-router';
+import { Link, useRouter } from 'expo-router';
+import MapView, { Marker, Polygon, Polyline, PROVIDER_DEFAULT } from 'react-native-maps';
+import * as Location from 'expo-location';
+import { PathFinder, Point } from '../utils/pathfinding';
+import { buildIsochronePolygon } from '../utils/isochrone';
+import { RouteWorker, RouteJob, RouteCancelledError } from '../utils/routeWorker';
+import { RoadClosure, parseRoadClosure } from '../utils/roadClosures';
+import { EncodedRoute, decodeRoute } from '../utils/polyline';
+import { DEFAULT_SERVICE_ZONES, ZoneTags } from '../utils/serviceZones';
+import { closureAPI, rideAPI } from '../lib/api';
+import { connectSocket } from '../lib/socket';
+
+// Travel time that outlines the rider's dispatch area
+const DISPATCH_AREA_SECONDS = 5 * 60;
+
+// How often road closures are refreshed from the server
+const CLOSURE_POLL_INTERVAL = 60 * 1000;
+
+// How often pending ride requests near the rider are refreshed while available
+const RIDE_POLL_INTERVAL = 15 * 1000;
+
+// A pending ride request with the route quoted to the commuter
+interface RideRequest {
+  id: string;
+  pickup: Point;
+  pickupZone: ZoneTags;
+  route: Point[];
+  dropoff: Point & { address: string };
+}
+
+// Reads a ride from the server as a ride request
+function toRideRequest(ride: any): RideRequest {
+  let route: Point[] = [];
+  try {
+    route = ride.route?.polyline ? decodeRoute(ride.route) : [];
+  } catch (error) {
+    console.warn('Invalid route for ride', ride._id, error);
+  }
+  const pickup = {
+    latitude: ride.pickupLocation.coordinates[1],
+    longitude: ride.pickupLocation.coordinates[0],
+  };
+  return {
+    id: ride._id,
+    pickup,
+    // Rides booked before the server tagged zones carry no tags
+    pickupZone: ride.pickupLocation.zone ?? DEFAULT_SERVICE_ZONES.tag(pickup),
+    route,
+    dropoff: {
+      latitude: ride.dropoffLocation.coordinates[1],
+      longitude: ride.dropoffLocation.coordinates[0],
+      address: ride.dropoffLocation.address,
+    },
+  };
+}
 
 export default function dashboardRider() {
+  const router = useRouter();
   const [isAvailable, setIsAvailable] = useState(false);
+  const [riderLocation, setRiderLocation] = useState<Point | null>(null);
+  const [dispatchArea, setDispatchArea] = useState<Point[]>([]);
+  const [activeClosures, setActiveClosures] = useState<RoadClosure[]>([]);
+  const [closureVersion, setClosureVersion] = useState(0); // Bumped when closures change
+  const [rideRequests, setRideRequests] = useState<RideRequest[]>([]);
+  const pathFinder = useRef(new PathFinder()).current;
+  const routeWorker = useRef(new RouteWorker(pathFinder)).current;
+  const dispatchAreaJob = useRef<RouteJob<{ [nodeId: string]: number }> | null>(null);
+  const dispatchAreaKey = useRef<string | null>(null); // Road node and closures the dispatch area was computed for
+
+  useEffect(() => {
+    const loadLocation = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          console.warn('Location permission denied, showing static map');
+          return;
+        }
+        const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+        setRiderLocation({
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+        });
+      } catch (error) {
+        console.error('Error getting rider location:', error);
+      }
+    };
+
+    loadLocation();
+  }, []);
+
+  // Keep road closures in sync with the server so the dispatch area avoids them
+  useEffect(() => {
+    const unsubscribe = pathFinder.onClosuresChanged(() => {
+      setActiveClosures(pathFinder.getActiveClosures());
+      setClosureVersion(version => version + 1);
+    });
+
+    const syncClosures = async () => {
+      try {
+        const data: any[] = await closureAPI.getClosures();
+        const closures = data.flatMap(item => {
+          try {
+            return [parseRoadClosure(item)];
+          } catch (error) {
+            console.warn('Skipping invalid road closure:', error);
+            return [];
+          }
+        });
+        pathFinder.setClosures(closures);
+        setActiveClosures(pathFinder.getActiveClosures());
+      } catch (error) {
+        console.error('Error loading road closures:', error);
+      }
+    };
+
+    syncClosures();
+    const interval = setInterval(syncClosures, CLOSURE_POLL_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  // Runs the dispatch area search in the background so the map stays responsive
+  useEffect(() => {
+    return () => routeWorker.terminate();
+  }, []);
+
+  // Outline where the rider can get to within DISPATCH_AREA_SECONDS while available
+  useEffect(() => {
+    if (!isAvailable || !riderLocation) {
+      dispatchAreaJob.current?.cancel();
+      dispatchAreaKey.current = null;
+      setDispatchArea([]);
+      return;
+    }
+
+    const updateDispatchArea = async () => {
+      try {
+        await pathFinder.fetchRoadNetwork(riderLocation, 4000);
+        const nearestNodeId = pathFinder.snap(riderLocation, 1000)?.nodeId;
+        if (!nearestNodeId) {
+          console.warn('Could not find a road near the rider location');
+          return;
+        }
+        // GPS fixes that snap to the same node keep the outline until closures change
+        const key = `${nearestNodeId}|${closureVersion}`;
+        if (key === dispatchAreaKey.current) return;
+        dispatchAreaKey.current = key;
+        dispatchAreaJob.current?.cancel();
+
+        const job = routeWorker.postMessage({ type: 'reachableNodes', startId: nearestNodeId, maxTime: DISPATCH_AREA_SECONDS });
+        dispatchAreaJob.current = job;
+        const travelTimes = await job.promise;
+        dispatchAreaJob.current = null;
+        setDispatchArea(buildIsochronePolygon(pathFinder, travelTimes, DISPATCH_AREA_SECONDS));
+      } catch (error) {
+        if (error instanceof RouteCancelledError) return;
+        console.error('Error computing dispatch area:', error);
+        dispatchAreaKey.current = null;
+      }
+    };
+
+    updateDispatchArea();
+  }, [isAvailable, riderLocation, closureVersion]);
+
+  // Show pending ride requests nearby along the exact routes the commuters were quoted
+  useEffect(() => {
+    if (!isAvailable || !riderLocation) {
+      setRideRequests([]);
+      return;
+    }
+
+    const loadRideRequests = async () => {
+      try {
+        const rides: any[] = await rideAPI.getNearbyRides(riderLocation);
+        setRideRequests(rides.map(toRideRequest));
+      } catch (error) {
+        console.error('Error loading nearby ride requests:', error);
+      }
+    };
+
+    loadRideRequests();
+    const interval = setInterval(loadRideRequests, RIDE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAvailable, riderLocation]);
+
+  // Follow ride requests and their route changes live between polls
+  useEffect(() => {
+    if (!isAvailable) return;
+
+    const handleNewRideRequest = (ride: any) => {
+      try {
+        const request = toRideRequest(ride);
+        setRideRequests(prev => prev.some(item => item.id === request.id) ? prev : [...prev, request]);
+      } catch (error) {
+        console.warn('Skipping invalid ride request:', error);
+      }
+    };
+
+    const handleRideRouteChanged = ({ rideId, route }: { rideId: string; route: EncodedRoute }) => {
+      try {
+        const coordinates = decodeRoute(route);
+        setRideRequests(prev => prev.map(ride => ride.id === rideId ? { ...ride, route: coordinates } : ride));
+      } catch (error) {
+        console.warn('Invalid route for ride', rideId, error);
+      }
+    };
+
+    let active = true;
+    const socketPromise = connectSocket().then(socket => {
+      if (active) {
+        socket.on('newRideRequest', handleNewRideRequest);
+        socket.on('rideRouteChanged', handleRideRouteChanged);
+      }
+      return socket;
+    }).catch(error => {
+      console.error('Error connecting to ride updates:', error);
+      return null;
+    });
+
+    return () => {
+      active = false;
+      socketPromise.then(socket => {
+        socket?.off('newRideRequest', handleNewRideRequest);
+        socket?.off('rideRouteChanged', handleRideRouteChanged);
+      });
+    };
+  }, [isAvailable]);
+
+  // Route changes are sent to the ride's room
+  useEffect(() => {
+    if (rideRequests.length === 0) return;
+    connectSocket()
+      .then(socket => rideRequests.forEach(ride => socket.emit('joinRideRoom', ride.id)))
+      .catch(error => console.error('Error joining ride rooms:', error));
+  }, [rideRequests.map(ride => ride.id).join(',')]);
+
+  // Accept a ride request and drive it, by way of the pickup
+  const handleAcceptRide = (ride: RideRequest) => {
+    Alert.alert('Accept Ride', `Pick up the commuter and drive to ${ride.dropoff.address}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Accept',
+        onPress: async () => {
+          try {
+            await rideAPI.acceptRide(ride.id);
+            setRideRequests(prev => prev.filter(item => item.id !== ride.id));
+            router.push({
+              pathname: '/locationcommuter',
+              params: {
+                rideId: ride.id,
+                pickupLat: ride.pickup.latitude.toString(),
+                pickupLng: ride.pickup.longitude.toString(),
+                destLat: ride.dropoff.latitude.toString(),
+                destLng: ride.dropoff.longitude.toString(),
+                destAddress: ride.dropoff.address,
+              },
+            });
+          } catch (error) {
+            console.error('Error accepting ride:', error);
+            Alert.alert('Accept Error', 'The ride could not be accepted. It may have been taken by another rider.');
+          }
+        },
+      },
+    ]);
+  };
 
   const toggleAvailability = () => {
     setIsAvailable(!isAvailable);
@@ -37,11 +300,76 @@ export default function dashboardRider() {
 
       {/* Main Content */}
       <View style={styles.content}>
-        <Image 
-          source={require('../assets/images/naga-map.png')}
-          style={styles.mapImage}
-          resizeMode="cover"
-        />
+        {riderLocation ? (
+          <MapView
+            style={styles.mapImage}
+            provider={PROVIDER_DEFAULT}
+            showsUserLocation
+            initialRegion={{
+              ...riderLocation,
+              latitudeDelta: 0.03,
+              longitudeDelta: 0.03,
+            }}
+          >
+            {/* Area reachable within the dispatch time */}
+            {dispatchArea.length > 2 && (
+              <Polygon
+                coordinates={dispatchArea}
+                strokeWidth={1}
+                strokeColor="rgba(13, 66, 23, 0.6)"
+                fillColor="rgba(255, 215, 0, 0.15)"
+              />
+            )}
+
+            {/* Pending ride requests and their quoted routes */}
+            {rideRequests.map(ride => [
+              ride.route.length > 1 && (
+                <Polyline
+                  key={`ride-route-${ride.id}`}
+                  coordinates={ride.route}
+                  strokeWidth={4}
+                  strokeColor="#0d4217"
+                />
+              ),
+              <Marker
+                key={`ride-pickup-${ride.id}`}
+                coordinate={ride.pickup}
+                onPress={() => handleAcceptRide(ride)}
+                title={ride.pickupZone.barangay ? DEFAULT_SERVICE_ZONES.getZone(ride.pickupZone.barangay)?.name : undefined}
+              >
+                <Ionicons name="person-circle" size={28} color="#0d4217" />
+              </Marker>,
+            ])}
+
+            {/* Road closures and flooded areas */}
+            {activeClosures.map(closure => [
+              closure.polygon && (
+                <Polygon
+                  key={`closure-${closure.id}`}
+                  coordinates={closure.polygon}
+                  strokeWidth={2}
+                  strokeColor={closure.kind === 'closed' ? '#e74c3c' : '#f39c12'}
+                  fillColor={closure.kind === 'closed' ? 'rgba(231, 76, 60, 0.25)' : 'rgba(243, 156, 18, 0.2)'}
+                />
+              ),
+              ...(closure.wayIds ?? []).map(wayId => (
+                <Polyline
+                  key={`closure-${closure.id}-${wayId}`}
+                  coordinates={pathFinder.getWayCoordinates(wayId)}
+                  strokeWidth={5}
+                  strokeColor={closure.kind === 'closed' ? '#e74c3c' : '#f39c12'}
+                  lineDashPattern={[6, 4]}
+                />
+              )),
+            ])}
+          </MapView>
+        ) : (
+          <Image 
+            source={require('../assets/images/naga-map.png')}
+            style={styles.mapImage}
+            resizeMode="cover"
+          />
+        )}
       </View>
 
       {/* Bottom Navigation */}
@@ -1,17 +1,30 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { View, StyleSheet, Text, SafeAreaView, Platform, StatusBar, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { View, StyleSheet, Text, SafeAreaView, Platform, StatusBar, TouchableOpacity, TextInput, Alert, ActivityIndicator, AppState } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Link, useRouter, useLocalSearchParams } from 'expo-router';
-import MapView, { Marker, PROVIDER_GOOGLE, Polyline, PROVIDER_DEFAULT } from 'react-native-maps';
+import MapView, { Marker, PROVIDER_GOOGLE, Polyline, Polygon, PROVIDER_DEFAULT } from 'react-native-maps';
 import * as Location from 'expo-location';
-import { PathFinder, Point } from '../utils/pathfinding';
-import { rideAPI } from '../lib/api';
+import * as DocumentPicker from 'expo-document-picker';
+import { PathFinder, Point, PathResult, SnapResult, Maneuver, calculateFare, selectLevelOfDetail } from '../utils/pathfinding';
+import { buildIsochronePolygon } from '../utils/isochrone';
+import { ReverseGeocoder } from '../utils/reverseGeocoder';
+import { PlaceSearchIndex } from '../utils/placeSearch';
+import { RoadClosure, parseRoadClosure } from '../utils/roadClosures';
+import { NavigationSession } from '../utils/navigationSession';
+import { encodeRoute } from '../utils/polyline';
+import { RouteWorker, RouteJob, RouteTaskProgress, RouteCancelledError } from '../utils/routeWorker';
+import { DEFAULT_SERVICE_ZONES, OutsideServiceAreaError } from '../utils/serviceZones';
+import { TripExport, TripExportFormat, shareTrip, saveTrip, listSavedTrips, loadGpxTrace } from '../utils/tripExport';
+import { MapMatcher, MatchResult, TracePoint } from '../utils/mapMatching';
+import { rideAPI, closureAPI } from '../lib/api';
+import { connectSocket } from '../lib/socket';
 import { MaterialIcons } from '@expo/vector-icons';
 
 interface Location extends Point {
   name?: string;
   address?: string;
   heading?: number;
+  speed?: number | null; // m/s
   instruction?: string;
   distance?: number;
   timestamp?: number;
@@ -29,14 +42,33 @@ interface TurnInfo {
   distance: number;
 }
 
-// Naga City boundaries
-const NAGA_CITY_BOUNDS = {
-  north: 13.6500, // Northern boundary
-  south: 13.5800, // Southern boundary
-  east: 123.2000,  // Eastern boundary
-  west: 123.1500,  // Western boundary
+interface RouteOption {
+  result: PathResult;
+  coordinates: Point[];
+  maneuvers: Maneuver[];
+}
+
+// Maximum number of intermediate stops per ride
+const MAX_STOPS = 3;
+
+// Loading indicator text for each stage of route computation
+const ROUTE_STAGE_LABELS: { [stage: string]: string } = {
+  parse: 'Loading roads...',
+  graph: 'Building road network...',
+  search: 'Finding route...',
+  route: 'Preparing route...',
+  match: 'Matching trip...',
 };
 
+// Travel time used to outline the area a tricycle can reach from the commuter
+const SERVICE_AREA_SECONDS = 5 * 60;
+
+// How often road closures are refreshed from the server
+const CLOSURE_POLL_INTERVAL = 60 * 1000;
+
+// Replayed trips run this many times faster than they were recorded
+const REPLAY_SPEED = 10;
+
 // Naga City center coordinates
 const NAGA_CITY_CENTER = {
   latitude: 13.6195,
@@ -71,14 +103,22 @@ const LOCATION_SETTINGS = {
 export default function LocationCommuter() {
   const router = useRouter();
   const params = useLocalSearchParams();
+  const rideId = typeof params.rideId === 'string' ? params.rideId : null; // Ride accepted on the rider dashboard
   const mapRef = useRef<MapView>(null);
   const pathFinder = useRef(new PathFinder()).current;
+  const routeWorker = useRef(new RouteWorker(pathFinder)).current;
+  const routeJob = useRef<RouteJob<PathResult[]> | null>(null); // Search in progress, cancelled by a newer one
+  const serviceAreaJob = useRef<RouteJob<{ [nodeId: string]: number }> | null>(null);
+  const serviceAreaStart = useRef<string | null>(null); // Road node the service area was computed from
+  const reverseGeocoder = useRef(new ReverseGeocoder(pathFinder)).current;
+  const placeIndex = useRef(new PlaceSearchIndex()).current;
   const [currentLocation, setCurrentLocation] = useState<Location>(NAGA_CITY_CENTER);
   const [destination, setDestination] = useState<Location | null>(null);
   const [searchText, setSearchText] = useState('');
   const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(null);
   const [searchCache, setSearchCache] = useState<Record<string, Location>>({});
   const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [retryCount, setRetryCount] = useState(0);
   const MAX_RETRIES = 3;
   const MAX_CACHE_SIZE = 50; // Maximum number of cached locations
@@ -96,6 +136,13 @@ export default function LocationCommuter() {
   const LOCATION_UPDATE_INTERVAL = 5000; // 5 seconds
   const [isBooking, setIsBooking] = useState(false);
   const locationSubscription = useRef<Location.LocationSubscription | null>(null);
+  const navigationSession = useRef<NavigationSession | null>(null);
+  const tripTrace = useRef<TracePoint[]>([]); // GPS fixes recorded while navigating
+  const tripSaved = useRef(false);
+  const tripMatch = useRef<MatchResult | null>(null); // The recorded trip matched onto the roads at arrival
+  const replayTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [replayTrace, setReplayTrace] = useState<TracePoint[]>([]);
+  const [replayIndex, setReplayIndex] = useState(0);
   const [isRiderView, setIsRiderView] = useState(false);
   const [mapStyle, setMapStyle] = useState('standard');
   const [showTraffic, setShowTraffic] = useState(false);
@@ -105,6 +152,26 @@ export default function LocationCommuter() {
   const [estimatedTime, setEstimatedTime] = useState<number>(0);
   const [fare, setFare] = useState<number>(0);
   const [totalDistance, setTotalDistance] = useState<number>(0);
+  const [routeOptions, setRouteOptions] = useState<RouteOption[]>([]);
+  const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
+  const [maneuvers, setManeuvers] = useState<Maneuver[]>([]);
+  const [stops, setStops] = useState<Location[]>([]);
+  const [serviceArea, setServiceArea] = useState<Point[]>([]);
+  const [activeClosures, setActiveClosures] = useState<RoadClosure[]>([]);
+  const [closureVersion, setClosureVersion] = useState(0); // Bumped when closures change, to reroute
+  const [routeProgress, setRouteProgress] = useState<RouteTaskProgress | null>(null);
+
+  // Simplified route lines per zoom level; maneuver points are kept at every level
+  const pathLevels = useMemo(
+    () => pathFinder.getPathLevelsOfDetail(pathCoordinates, maneuvers.map(maneuver => maneuver.geometryIndex)),
+    [pathCoordinates, maneuvers]
+  );
+  const routeLevels = useMemo(
+    () => routeOptions.map(option =>
+      pathFinder.getPathLevelsOfDetail(option.coordinates, option.maneuvers.map(maneuver => maneuver.geometryIndex))
+    ),
+    [routeOptions]
+  );
 
   // Add cache cleaning function
   const cleanCache = () => {
@@ -138,6 +205,56 @@ export default function LocationCommuter() {
     ];
   };
 
+  // Describe a coordinate from the loaded map data, e.g. "near Plaza Rizal, Elias Angeles St, Sta. Cruz"
+  const describeLocation = (point: Point): string | undefined => {
+    return reverseGeocoder.reverseGeocode(point)?.label;
+  };
+
+  // Outline the area reachable within SERVICE_AREA_SECONDS from a road node. GPS fixes
+  // that snap to the same node keep the current outline.
+  const updateServiceArea = async (startNodeId: string) => {
+    if (startNodeId === serviceAreaStart.current) return;
+    serviceAreaStart.current = startNodeId;
+    serviceAreaJob.current?.cancel();
+
+    const job = routeWorker.postMessage({ type: 'reachableNodes', startId: startNodeId, maxTime: SERVICE_AREA_SECONDS });
+    serviceAreaJob.current = job;
+    try {
+      const travelTimes = await job.promise;
+      setServiceArea(buildIsochronePolygon(pathFinder, travelTimes, SERVICE_AREA_SECONDS));
+    } catch (error) {
+      if (error instanceof RouteCancelledError) return;
+      console.error('Error computing service area:', error);
+      serviceAreaStart.current = null;
+    } finally {
+      if (serviceAreaJob.current === job) {
+        serviceAreaJob.current = null;
+        if (!routeWorker.getExecutor().isBusy()) setRouteProgress(null);
+      }
+    }
+  };
+
+  // Build graphs and search routes in the background so the map and search box stay responsive
+  useEffect(() => {
+    pathFinder.setExecutor(routeWorker.getExecutor());
+    const unsubscribe = routeWorker.getExecutor().onProgress(setRouteProgress);
+    return () => {
+      unsubscribe();
+      routeWorker.terminate();
+      pathFinder.setExecutor(null);
+    };
+  }, []);
+
+  // Drop road tiles that are not in use when the OS runs low on memory
+  useEffect(() => {
+    const subscription = AppState.addEventListener('memoryWarning', () => {
+      pathFinder.trimTiles()
+        .then(evicted => console.log(`Memory warning: evicted ${evicted} road tiles`))
+        .catch(error => console.error('Error trimming road tiles:', error));
+    });
+    return () => subscription.remove();
+  }, []);
+
   // Initialize pathfinder with OpenStreetMap data
   useEffect(() => {
     const initializePathFinder = async () => {
@@ -147,26 +264,25 @@ export default function LocationCommuter() {
         // Fetch road network data around current location with a smaller radius
         await pathFinder.fetchRoadNetwork(currentLocation, 2000); // Reduced to 2km radius
         console.log('Initial road network fetched.', { 
-          nodes: Object.keys(pathFinder.getNodes()).length, 
+          nodes: pathFinder.getCompactGraph().nodeCount, 
           osmNodes: Object.keys(pathFinder.getOsmNodes()).length, 
           osmWays: Object.keys(pathFinder.getOsmWays()).length 
         });
+        placeIndex.addOsmPlaces(pathFinder);
         
-        // Find and connect nearest road node to current location
-        const nearestNodeId = pathFinder.findNearestOsmNode(currentLocation, 1000); // Reduced search radius
+        // Routes snap the current location onto the nearest road, so only check that there is one
+        const nearestNodeId = pathFinder.snap(currentLocation, 1000)?.nodeId; // Reduced search radius
         if (nearestNodeId) {
-          pathFinder.addNode('current', currentLocation);
-          pathFinder.addEdge('current', nearestNodeId);
-          console.log('Connected current location to nearest road node:', nearestNodeId);
+          console.log('Current location is near road node:', nearestNodeId);
+          updateServiceArea(nearestNodeId);
         } else {
-          console.warn('Could not connect current location to the initial road network.');
+          console.warn('No road near the current location in the initial road network.');
           // Try to fetch more road network data with a smaller radius
           await pathFinder.fetchRoadNetwork(currentLocation, 3000);
-          const retryNodeId = pathFinder.findNearestOsmNode(currentLocation, 1500);
+          const retryNodeId = pathFinder.snap(currentLocation, 1500)?.nodeId;
           if (retryNodeId) {
-            pathFinder.addNode('current', currentLocation);
-            pathFinder.addEdge('current', retryNodeId);
-            console.log('Connected current location to nearest road node on retry:', retryNodeId);
+            console.log('Current location is near road node on retry:', retryNodeId);
+            updateServiceArea(retryNodeId);
           }
         }
       } catch (error) {
@@ -174,12 +290,110 @@ export default function LocationCommuter() {
         Alert.alert('Error', 'Failed to load initial road network data. Please try again.');
       } finally {
         setIsLoading(false);
+        setRouteProgress(null);
       }
     };
 
     initializePathFinder();
   }, [currentLocation]);
 
+  // Keep road closures in sync with the server; the PathFinder routes around them
+  useEffect(() => {
+    const unsubscribe = pathFinder.onClosuresChanged(() => {
+      setActiveClosures(pathFinder.getActiveClosures());
+      setClosureVersion(version => version + 1);
+    });
+
+    const syncClosures = async () => {
+      try {
+        const data: any[] = await closureAPI.getClosures();
+        const closures = data.flatMap(item => {
+          try {
+            return [parseRoadClosure(item)];
+          } catch (error) {
+            console.warn('Skipping invalid road closure:', error);
+            return [];
+          }
+        });
+        pathFinder.setClosures(closures);
+        // Scheduled closures start and end without the set changing
+        setActiveClosures(pathFinder.getActiveClosures());
+      } catch (error) {
+        console.error('Error loading road closures:', error);
+      }
+    };
+
+    syncClosures();
+    const interval = setInterval(syncClosures, CLOSURE_POLL_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  // Reroute the trip being planned when a closure is added or lifted
+  useEffect(() => {
+    if (closureVersion === 0) return;
+
+    const start = pathFinder.snap(currentLocation, 1000);
+    if (start) {
+      updateServiceArea(start.nodeId);
+    }
+
+    if (!destination) return;
+    const end = pathFinder.snap(destination);
+    if (start && end) {
+      console.log('Road closures changed, rerouting');
+      calculatePath(start, end, destination);
+    }
+  }, [closureVersion]);
+
+  // Drive a ride accepted on the rider dashboard: to the pickup, then the dropoff
+  useEffect(() => {
+    if (!rideId) return;
+
+    const startRide = async () => {
+      const pickup: Location = {
+        latitude: parseFloat(params.pickupLat as string),
+        longitude: parseFloat(params.pickupLng as string),
+        name: 'Pickup',
+      };
+      const dropoff: Location = {
+        latitude: parseFloat(params.destLat as string),
+        longitude: parseFloat(params.destLng as string),
+        name: params.destAddress as string,
+        address: params.destAddress as string,
+      };
+
+      try {
+        setIsLoading(true);
+        const socket = await connectSocket();
+        socket.emit('joinRideRoom', rideId);
+
+        setIsRiderView(true);
+        setStops([pickup]);
+        setDestination(dropoff);
+        updateMapRegion(dropoff);
+
+        await pathFinder.fetchRoadNetworkBetween(currentLocation, pickup);
+        await pathFinder.fetchRoadNetworkBetween(pickup, dropoff);
+        const start = pathFinder.snap(currentLocation);
+        const end = pathFinder.snap(dropoff);
+        if (!start || !end) {
+          throw new Error('Could not find road connections for the ride');
+        }
+        setPathCoordinates(await calculatePath(start, end, dropoff, [pickup]));
+      } catch (error) {
+        console.error('Error starting ride:', error);
+        Alert.alert('Ride Error', 'Failed to load the route of the ride. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    startRide();
+  }, [rideId]);
+
   const handleSearch = async (query: string) => {
     try {
       setIsLoading(true);
@@ -189,18 +403,21 @@ export default function LocationCommuter() {
       const cachedResult = searchCache[query];
       if (cachedResult?.timestamp && Date.now() - cachedResult.timestamp < CACHE_EXPIRY) {
         console.log('Using cached search result');
+        setSearchResults([]);
         setDestination(cachedResult);
         updateMapRegion(cachedResult);
         
         // Calculate path using road network
-        const nearestCurrentOsmNodeId = pathFinder.findNearestOsmNode(currentLocation, 10000);
-        const nearestDestinationOsmNodeId = pathFinder.findNearestOsmNode(cachedResult, 10000);
+        await pathFinder.fetchRoadNetworkBetween(currentLocation, cachedResult);
+        // Snap pickup and dropoff onto the nearest roads
+        const pickup = pathFinder.snap(currentLocation);
+        const dropoff = pathFinder.snap(cachedResult);
 
-        if (!nearestCurrentOsmNodeId || !nearestDestinationOsmNodeId) {
+        if (!pickup || !dropoff) {
           throw new Error('Could not find road connections for cached location');
         }
 
-        const pathResult = await calculatePath(nearestCurrentOsmNodeId, nearestDestinationOsmNodeId, cachedResult);
+        const pathResult = await calculatePath(pickup, dropoff, cachedResult);
         setPathCoordinates(pathResult);
         return;
       }
@@ -211,75 +428,135 @@ export default function LocationCommuter() {
         throw new Error('No results found');
       }
 
-      const newDestination: Location = {
-        latitude: results[0].lat,
-        longitude: results[0].lon,
-        name: results[0].display_name,
-        timestamp: Date.now()
-      };
+      // Go with the best match and let the user pick another from the suggestions
+      setSearchResults(results);
+      await selectSearchResult(results[0], query);
 
-      // Cache the result
-      setSearchCache(prev => {
-        const newCache = { ...prev, [query]: newDestination };
-        // Remove oldest entries if cache is too large
-        const entries = Object.entries(newCache);
-        if (entries.length > MAX_CACHE_SIZE) {
-          const sortedEntries = entries.sort((a, b) => (b[1].timestamp || 0) - (a[1].timestamp || 0));
-          return Object.fromEntries(sortedEntries.slice(0, MAX_CACHE_SIZE));
-        }
-        return newCache;
-      });
+    } catch (error) {
+      console.error('Search error:', error);
+      setSearchError(error instanceof Error ? error.message : 'Failed to search location');
+      setDestination(null);
+      setPathCoordinates([]);
+      setRouteOptions([]);
+      setSearchResults([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      setDestination(newDestination);
-      updateMapRegion(newDestination);
-      
-      // Initialize pathfinder if needed
-      if (!pathFinder.getNodes()['current']) {
-        await pathFinder.fetchRoadNetwork(newDestination, 15000);
+  // Route to a search result and remember it for the query
+  const selectSearchResult = async (result: SearchResult, query: string) => {
+    const newDestination: Location = {
+      latitude: result.lat,
+      longitude: result.lon,
+      name: result.display_name,
+      timestamp: Date.now()
+    };
+
+    // Cache the result
+    setSearchCache(prev => {
+      const newCache = { ...prev, [query]: newDestination };
+      // Remove oldest entries if cache is too large
+      const entries = Object.entries(newCache);
+      if (entries.length > MAX_CACHE_SIZE) {
+        const sortedEntries = entries.sort((a, b) => (b[1].timestamp || 0) - (a[1].timestamp || 0));
+        return Object.fromEntries(sortedEntries.slice(0, MAX_CACHE_SIZE));
       }
+      return newCache;
+    });
 
-      // Find nearest OSM nodes
-      const nearestCurrentOsmNodeId = pathFinder.findNearestOsmNode(currentLocation, 10000);
-      const nearestDestinationOsmNodeId = pathFinder.findNearestOsmNode(newDestination, 10000);
+    setDestination(newDestination);
+    updateMapRegion(newDestination);
+    
+    // Load the road tiles between here and the destination; loaded tiles are kept
+    await pathFinder.fetchRoadNetworkBetween(currentLocation, newDestination);
 
-      if (!nearestCurrentOsmNodeId || !nearestDestinationOsmNodeId) {
-        throw new Error('Could not find road connections for the destination');
-      }
+    // Snap pickup and dropoff onto the nearest roads
+    const pickup = pathFinder.snap(currentLocation);
+    const dropoff = pathFinder.snap(newDestination);
 
-      const pathResult = await calculatePath(nearestCurrentOsmNodeId, nearestDestinationOsmNodeId, newDestination);
-      setPathCoordinates(pathResult);
+    if (!pickup || !dropoff) {
+      throw new Error('Could not find road connections for the destination');
+    }
 
+    const pathResult = await calculatePath(pickup, dropoff, newDestination);
+    setPathCoordinates(pathResult);
+  };
+
+  const handleSelectSuggestion = async (result: SearchResult) => {
+    try {
+      setIsLoading(true);
+      setSearchError(null);
+      setSearchResults([]);
+      await selectSearchResult(result, searchText);
     } catch (error) {
       console.error('Search error:', error);
       setSearchError(error instanceof Error ? error.message : 'Failed to search location');
-      setDestination(null);
-      setPathCoordinates([]);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Enhanced path calculation with smoothing
-  const calculatePath = async (startNodeId: string, endNodeId: string, destination: Location): Promise<Point[]> => {
+  // Show a route option on the map and use its distance, time and fare for the booking
+  const selectRoute = (options: RouteOption[], index: number) => {
+    const option = options[index];
+    if (!option) return;
+
+    setSelectedRouteIndex(index);
+    setPathCoordinates(option.coordinates);
+    setManeuvers(option.maneuvers);
+    setFare(option.result.fare);
+    setTotalDistance(option.result.distance);
+    setEstimatedTime(option.result.estimatedTime);
+  };
+
+  // Enhanced path calculation with alternative routes, or one route through the stops
+  const calculatePath = async (
+    pickup: SnapResult,
+    dropoff: SnapResult,
+    destination: Location,
+    waypoints: Location[] = stops
+  ): Promise<Point[]> => {
+    // A new destination or stop replaces the route still being computed
+    routeJob.current?.cancel();
+    let job: RouteJob<PathResult[]> | null = null;
+
     try {
       setIsLoading(true);
-      const pathResult = pathFinder.findShortestPath(startNodeId, endNodeId);
+
+      if (waypoints.length > 0) {
+        const stopSnaps = waypoints.map(stop => pathFinder.snap(stop));
+        if (stopSnaps.some(snap => !snap)) {
+          throw new Error('Could not find road connections for a stop');
+        }
+        const multiLegJob = routeWorker.postMessage({
+          type: 'waypointPath',
+          waypoints: [pickup, ...(stopSnaps as SnapResult[]), dropoff],
+        });
+        job = {
+          ...multiLegJob,
+          promise: multiLegJob.promise.then(result => result ? [result] : []),
+        };
+      } else {
+        job = routeWorker.postMessage({ type: 'alternativePaths', start: pickup, end: dropoff });
+      }
+      routeJob.current = job;
+      const pathResults = await job.promise;
       
-      if (!pathResult) {
+      if (pathResults.length === 0) {
         throw new Error('No path found');
       }
 
-      // Get detailed path coordinates
-      const detailedPath = pathFinder.getDetailedPathCoordinates(pathResult.path);
-      
-      // Calculate fare and update state
-      const fare = calculateEstimatedFare(currentLocation, destination);
-      setFare(fare);
-      setTotalDistance(pathResult.distance);
-      setEstimatedTime(pathResult.estimatedTime);
+      // Get detailed path coordinates and turn-by-turn maneuvers for every route
+      const options = pathResults.map(result => ({
+        result,
+        coordinates: pathFinder.getRouteCoordinates(result),
+        maneuvers: pathFinder.getRouteManeuvers(result, { destination, destinationName: destination.name }),
+      }));
+      setRouteOptions(options);
+      selectRoute(options, 0);
 
-      // Update path coordinates
-      setPathCoordinates(detailedPath);
+      const detailedPath = options[0].coordinates;
 
       // Animate map to show the entire path
       if (mapRef.current && detailedPath.length > 0) {
@@ -296,42 +573,21 @@ export default function LocationCommuter() {
 
       return detailedPath;
     } catch (error) {
+      if (error instanceof RouteCancelledError) {
+        console.log('Route calculation cancelled for a newer request');
+        return [];
+      }
       console.error('Error calculating path:', error);
       setSearchError('Failed to calculate route. Please try again.');
       return [];
     } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Enhanced path smoothing
-  const smoothPath = (points: Point[]): Point[] => {
-    if (points.length <= 2) return points;
-
-    const smoothed: Point[] = [points[0]];
-    let currentIndex = 0;
-
-    while (currentIndex < points.length - 1) {
-      let furthestVisible = currentIndex + 1;
-      
-      // Look ahead to find the furthest visible point
-      for (let i = currentIndex + 2; i < points.length; i++) {
-        if (isLineOfSight(points[currentIndex], points[i])) {
-          furthestVisible = i;
-        }
+      // A newer request owns the loading state once this one was replaced
+      if (!job || routeJob.current === job) {
+        routeJob.current = null;
+        setIsLoading(false);
+        setRouteProgress(null);
       }
-
-      smoothed.push(points[furthestVisible]);
-      currentIndex = furthestVisible;
     }
-
-    return smoothed;
-  };
-
-  // Check if there's a direct line of sight between two points
-  const isLineOfSight = (point1: Point, point2: Point): boolean => {
-    const distance = calculateDistance(point1, point2);
-    return distance < 100; // 100 meters threshold
   };
 
   const updateMapRegion = (newDestination: Location) => {
@@ -378,13 +634,33 @@ export default function LocationCommuter() {
     return R * c; // Distance in meters
   };
 
+  // Naga City limit from assets/data/naga-zones.json
   const isWithinNagaCity = (location: Location): boolean => {
-    return (
-      location.latitude >= NAGA_CITY_BOUNDS.south &&
-      location.latitude <= NAGA_CITY_BOUNDS.north &&
-      location.longitude >= NAGA_CITY_BOUNDS.west &&
-      location.longitude <= NAGA_CITY_BOUNDS.east
-    );
+    return DEFAULT_SERVICE_ZONES.isInServiceArea(location);
+  };
+
+  // Turn the selected destination into an intermediate stop so the commuter can search the next one
+  const handleAddStop = () => {
+    if (!destination || stops.length >= MAX_STOPS) return;
+
+    setStops(prev => [...prev, destination]);
+    setDestination(null);
+    setSearchText('');
+    setPathCoordinates([]);
+    setRouteOptions([]);
+  };
+
+  const handleRemoveStop = async (index: number) => {
+    const newStops = stops.filter((_, i) => i !== index);
+    setStops(newStops);
+    if (!destination) return;
+
+    // Re-route to the current destination without the removed stop
+    const pickup = pathFinder.snap(currentLocation);
+    const dropoff = pathFinder.snap(destination);
+    if (pickup && dropoff) {
+      await calculatePath(pickup, dropoff, destination, newStops);
+    }
   };
 
   const handleChooseDestination = async () => {
@@ -404,38 +680,61 @@ export default function LocationCommuter() {
         throw new Error('Invalid coordinates');
       }
 
+      // Use the selected route when one was calculated, otherwise a straight-line estimate
+      const selectedRoute = routeOptions[selectedRouteIndex]?.result;
+
       // Calculate distance and fare
-      const distance = calculateDistance(currentLocation, destination);
+      const distance = selectedRoute ? selectedRoute.distance * 1000 : calculateDistance(currentLocation, destination);
       if (distance <= 0) {
         throw new Error('Invalid distance calculation');
       }
 
-      const estimatedFare = calculateEstimatedFare(currentLocation, destination);
+      const estimatedFare = selectedRoute ? selectedRoute.fare : calculateEstimatedFare(currentLocation, destination);
       if (estimatedFare <= 0) {
         throw new Error('Invalid fare calculation');
       }
 
+      // The tricycle stops where the route meets the road, not at the raw GPS or search coordinate
+      const pickupPoint = selectedRoute?.startPoint ?? currentLocation;
+      const dropoffPoint = selectedRoute?.endPoint ?? destination;
+
+      // Rejects bookings outside the city; the zones go along for pricing and dispatch
+      const zones = DEFAULT_SERVICE_ZONES.tagBooking(pickupPoint, dropoffPoint, stops);
+
       // Create ride data with all necessary fields
       const rideData = {
         pickupLocation: {
           type: 'Point',
-          coordinates: [currentLocation.longitude, currentLocation.latitude] as [number, number],
-          address: currentLocation.address || "Current Location"
+          coordinates: [pickupPoint.longitude, pickupPoint.latitude] as [number, number],
+          address: currentLocation.address || describeLocation(currentLocation) || "Current Location",
+          zone: zones.pickup
         },
         dropoffLocation: {
           type: 'Point',
-          coordinates: [destination.longitude, destination.latitude] as [number, number],
-          address: destination.address || searchText || "Selected Destination"
+          coordinates: [dropoffPoint.longitude, dropoffPoint.latitude] as [number, number],
+          address: destination.address || describeLocation(destination) || searchText || "Selected Destination",
+          zone: zones.dropoff
         },
+        stops: stops.map((stop, index) => ({
+          type: 'Point',
+          coordinates: [stop.longitude, stop.latitude] as [number, number],
+          address: stop.address || describeLocation(stop) || stop.name || `Stop ${index + 1}`,
+          zone: zones.stops[index]
+        })),
         fare: estimatedFare,
         distance: distance,
-        duration: Math.ceil(distance / 1000 * 3), // Rough estimate: 3 minutes per km
+        duration: selectedRoute
+          ? Math.ceil(selectedRoute.estimatedTime)
+          : Math.ceil(distance / 1000 * 3), // Rough estimate: 3 minutes per km
         paymentMethod: 'cash', // Default to cash payment
-        status: 'pending'
+        status: 'pending',
+        // The quoted route, so the rider drives the same path
+        route: pathCoordinates.length > 1 ? encodeRoute(pathCoordinates) : undefined
       };
 
       console.log('Creating ride with data:', {
         pickup: rideData.pickupLocation,
+        stops: rideData.stops,
         dropoff: rideData.dropoffLocation,
         fare: rideData.fare,
         distance: rideData.distance
@@ -477,7 +776,7 @@ export default function LocationCommuter() {
           pickupLng: currentLocation.latitude.toString(),
           destLat: destination.latitude.toString(),
           destLng: destination.longitude.toString(),
-          destAddress: destination.address || searchText,
+          destAddress: rideData.dropoffLocation.address,
           distance: distance.toString(),
           fare: estimatedFare.toString(),
           timestamp: new Date().toISOString()
@@ -487,7 +786,7 @@ export default function LocationCommuter() {
     } catch (error) {
       console.error('Error creating booking:', error);
       Alert.alert(
-        'Booking Error',
+        error instanceof OutsideServiceAreaError ? 'Outside Service Area' : 'Booking Error',
         error instanceof Error ? error.message : 'Failed to create booking. Please try again.'
       );
     } finally {
@@ -495,14 +794,10 @@ export default function LocationCommuter() {
     }
   };
 
+  // Straight-line estimate when no route is available, priced like a routed trip
   const calculateEstimatedFare = (start: Location, end: Location): number => {
-    const distance = calculateDistance(start, end);
-    const baseFare = 50; // Base fare in pesos
-    const perKmRate = 15; // Rate per kilometer
-    const minimumFare = 70; // Minimum fare in pesos
-    
-    const fare = baseFare + (distance / 1000 * perKmRate); // Convert meters to kilometers
-    return Math.max(fare, minimumFare);
+    const zones = pathFinder.getServiceZones();
+    return calculateFare(calculateDistance(start, end) / 1000, { pickup: zones.tag(start), dropoff: zones.tag(end) }); // Convert meters to kilometers
   };
 
   const getCurrentLocation = async () => {
@@ -552,6 +847,9 @@ export default function LocationCommuter() {
             latitude: location.coords.latitude,
             longitude: location.coords.longitude,
             accuracy: location.coords.accuracy,
+            heading: location.coords.heading ?? undefined,
+            speed: location.coords.speed,
+            timestamp: location.timestamp,
           };
 
           if (isWithinNagaCity(newLocation) && 
@@ -594,13 +892,25 @@ export default function LocationCommuter() {
     };
   }, []);
 
-  // Function to search for locations using Nominatim API
+  // Function to search for locations, offline landmarks and POIs first, then Nominatim
   const searchLocation = async (query: string): Promise<SearchResult[]> => {
+    const localMatches = placeIndex.search(query, { near: currentLocation });
+    const localResults: SearchResult[] = localMatches.map(result => ({
+      lat: result.point.latitude,
+      lon: result.point.longitude,
+      display_name: result.name
+    }));
+
     try {
       if (!query.trim()) {
         return [];
       }
 
+      // Only a good local hit skips Nominatim; weak ones are listed after its results
+      if (localMatches.some(result => result.isGoodMatch)) {
+        return localResults;
+      }
+
       const response = await fetch(
         `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
           query
@@ -628,67 +938,29 @@ export default function LocationCommuter() {
         throw new Error('Invalid response format from Nominatim API');
       }
 
-      return data.map((item: any) => ({
+      const onlineResults: SearchResult[] = data.map((item: any) => ({
         lat: parseFloat(item.lat),
         lon: parseFloat(item.lon),
         display_name: item.display_name
       }));
+      return [...onlineResults, ...localResults];
     } catch (error) {
+      if (localResults.length > 0) {
+        console.warn('Nominatim search failed, showing offline results:', error);
+        return localResults;
+      }
       console.error('Error searching location:', error);
       setSearchError('Failed to search location. Please try again.');
       throw error;
     }
   };
 
-  // Function to calculate next turn information
-  const calculateNextTurn = (path: Point[], currentIndex: number): TurnInfo | null => {
-    if (currentIndex >= path.length - 2) {
-      return null;
-    }
-
-    const current = path[currentIndex];
-    const next = path[currentIndex + 1];
-    const nextNext = path[currentIndex + 2];
-
-    // Calculate bearing between points
-    const bearing1 = calculateBearing(current, next);
-    const bearing2 = calculateBearing(next, nextNext);
-    const angleDiff = (bearing2 - bearing1 + 360) % 360;
-
-    // Calculate distance to next turn
-    const distance = calculateDistance(current, next);
-
-    // Determine turn instruction
-    let instruction = 'Continue straight';
-    if (angleDiff > 30 && angleDiff <= 150) {
-      instruction = 'Turn right';
-    } else if (angleDiff > 150 && angleDiff <= 210) {
-      instruction = 'Turn around';
-    } else if (angleDiff > 210 && angleDiff <= 330) {
-      instruction = 'Turn left';
-    }
-
-    return {
-      instruction,
-      distance
-    };
-  };
-
-  // Function to calculate bearing between two points
-  const calculateBearing = (start: Point, end: Point): number => {
-    const startLat = start.latitude * Math.PI / 180;
-    const startLng = start.longitude * Math.PI / 180;
-    const endLat = end.latitude * Math.PI / 180;
-    const endLng = end.longitude * Math.PI / 180;
-
-    const y = Math.sin(endLng - startLng) * Math.cos(endLat);
-    const x = Math.cos(startLat) * Math.sin(endLat) -
-              Math.sin(startLat) * Math.cos(endLat) * Math.cos(endLng - startLng);
-    
-    let bearing = Math.atan2(y, x) * 180 / Math.PI;
-    bearing = (bearing + 360) % 360;
-    
-    return bearing;
+  // Main street of a route, the one driven the longest, e.g. to label route options
+  const getMainStreet = (routeManeuvers: Maneuver[]): string | undefined => {
+    const longest = routeManeuvers
+      .filter(maneuver => maneuver.streetName)
+      .sort((a, b) => b.distance - a.distance)[0];
+    return longest?.streetName;
   };
 
   // Function to handle map style change
@@ -718,44 +990,218 @@ export default function LocationCommuter() {
     }));
   };
 
-  // Function to find closest point on path
-  const findClosestPointIndex = (point: Point, path: Point[]): number => {
-    let minDistance = Infinity;
-    let closestIndex = 0;
+  // Start a navigation session for the selected route in rider view
+  useEffect(() => {
+    const option = routeOptions[selectedRouteIndex];
+    navigationSession.current?.stop();
+    if (!isRiderView || !option || !destination) {
+      navigationSession.current = null;
+      setNextTurn(null);
+      return;
+    }
 
-    for (let i = 0; i < path.length; i++) {
-      const distance = calculateDistance(point, path[i]);
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestIndex = i;
+    tripTrace.current = [];
+    tripSaved.current = false;
+    tripMatch.current = null;
+    navigationSession.current = new NavigationSession(pathFinder, option, {
+      waypoints: stops.map(stop => pathFinder.snap(stop)).filter((snap): snap is SnapResult => !!snap),
+      destination,
+      destinationName: destination.name,
+      executor: routeWorker.getExecutor(),
+    });
+  }, [isRiderView, routeOptions, selectedRouteIndex]);
+
+  // Follow the rider along the route with every location update, rerouting when off route
+  useEffect(() => {
+    const session = navigationSession.current;
+    if (!isRiderView || !session) return;
+
+    tripTrace.current.push({
+      latitude: currentLocation.latitude,
+      longitude: currentLocation.longitude,
+      timestamp: currentLocation.timestamp ?? Date.now(),
+      accuracy: currentLocation.accuracy,
+    });
+
+    const progress = session.update(currentLocation);
+    // Reroutes run in the background; their progress is over once nothing is running
+    if (!routeWorker.getExecutor().isBusy()) {
+      setRouteProgress(null);
+    }
+    if (progress.arrived && !tripSaved.current) {
+      tripSaved.current = true;
+      // Match on the executor so arriving doesn't freeze the map, then save the trip
+      const trace = tripTrace.current;
+      routeWorker.getExecutor().run(new MapMatcher(pathFinder).matchTask(trace.slice())).promise
+        .catch(error => {
+          if (!(error instanceof RouteCancelledError)) console.error('Error matching recorded trip:', error);
+          return null;
+        })
+        .then(match => {
+          if (!routeWorker.getExecutor().isBusy()) setRouteProgress(null);
+          if (tripTrace.current !== trace) return; // A new trip started meanwhile
+          tripMatch.current = match;
+          return saveTrip(buildTrip()).then(uri => console.log('Saved recorded trip to', uri));
+        })
+        .catch(error => console.error('Error saving recorded trip:', error));
+    }
+    if (progress.rerouted) {
+      const route = session.getRoute();
+      setPathCoordinates(route.coordinates);
+      setManeuvers(route.maneuvers);
+
+      // Let the commuter follow the new route of the ride
+      if (rideId) {
+        connectSocket()
+          .then(socket => socket.emit('rideRouteUpdate', { rideId, route: encodeRoute(route.coordinates) }))
+          .catch(error => console.error('Error sending the new route of the ride:', error));
       }
     }
 
-    return closestIndex;
+    if (progress.offRoute) {
+      setNextTurn({ instruction: 'Return to the route', distance: progress.distanceFromRoute });
+    } else if (progress.arrived) {
+      const routeManeuvers = session.getRoute().maneuvers;
+      setNextTurn({ instruction: routeManeuvers[routeManeuvers.length - 1]?.instruction ?? 'You have arrived', distance: 0 });
+    } else if (progress.nextManeuver) {
+      setNextTurn({ instruction: progress.nextManeuver.instruction, distance: progress.distanceToNextManeuver });
+    }
+    setRemainingDistance(progress.remainingDistance);
+    setEstimatedTime(progress.remainingTime);
+
+    if (navigationMode === 'follow') {
+      mapRef.current?.animateCamera({
+        center: progress.snapped,
+        heading: currentLocation.heading ?? 0,
+      }, { duration: 500 });
+    }
+  }, [currentLocation, isRiderView]);
+
+  // The planned route and the trip recorded so far, matched onto the roads once arrived, for export
+  const buildTrip = (): TripExport => {
+    const route = routeOptions[selectedRouteIndex]?.result;
+    const pickup = pathCoordinates[0] ?? currentLocation;
+    return {
+      name: `Trip to ${destination?.name || destination?.address || 'destination'} ${new Date().toISOString().slice(0, 10)}`,
+      route: pathCoordinates,
+      trace: tripTrace.current,
+      matchedRoute: tripMatch.current?.coordinates,
+      matchedDistance: tripMatch.current ? tripMatch.current.distance / 1000 : undefined,
+      pickup: { ...pickup, address: describeLocation(pickup) },
+      dropoff: destination ? { ...destination, address: destination.address || describeLocation(destination) } : undefined,
+      stops: stops.map(stop => ({ ...stop, address: stop.address || describeLocation(stop) })),
+      fare: route?.fare,
+      distance: route?.distance,
+      estimatedTime: route?.estimatedTime,
+    };
   };
 
-  // Update location tracking to include navigation updates
+  // Export the route and recorded trip through the system share sheet
+  const handleExportTrip = () => {
+    const share = (format: TripExportFormat) => {
+      shareTrip(buildTrip(), format).catch(error => {
+        console.error('Error sharing trip:', error);
+        Alert.alert('Export Error', 'Failed to export the trip. Please try again.');
+      });
+    };
+
+    Alert.alert('Export Trip', 'Choose a format', [
+      { text: 'GPX', onPress: () => share('gpx') },
+      { text: 'GeoJSON', onPress: () => share('geojson') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const stopReplay = () => {
+    if (replayTimer.current) {
+      clearTimeout(replayTimer.current);
+      replayTimer.current = null;
+    }
+    setReplayTrace([]);
+  };
+
+  // Replay a trip on the map, REPLAY_SPEED times faster than it happened
+  const handleReplayTrip = () => {
+    if (replayTrace.length > 0) {
+      stopReplay();
+      return;
+    }
+
+    Alert.alert('Replay Trip', 'Choose a trip', [
+      { text: 'Last recorded trip', onPress: replayLatestTrip },
+      { text: 'Import GPX file', onPress: replayImportedTrip },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const replayLatestTrip = async () => {
+    try {
+      const [latestTrip] = await listSavedTrips();
+      if (!latestTrip) {
+        Alert.alert('No Trips', 'Trips are recorded while navigating and saved when you arrive.');
+        return;
+      }
+      startReplay(await loadGpxTrace(latestTrip));
+    } catch (error) {
+      console.error('Error replaying trip:', error);
+      Alert.alert('Replay Error', 'Failed to load the recorded trip.');
+    }
+  };
+
+  // Replay a .gpx file from the device, e.g. a trip shared by another rider or recorded by another app
+  const replayImportedTrip = async () => {
+    try {
+      // GPX has no MIME type every platform knows, so any file may be picked; the parser rejects non-GPX files
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled || !result.assets[0]) return;
+      startReplay(await loadGpxTrace(result.assets[0].uri));
+    } catch (error) {
+      console.error('Error importing GPX file:', error);
+      Alert.alert('Import Error', 'The file could not be read as a GPX trip.');
+    }
+  };
+
+  // Play a trace back on the map, moving the marker fix by fix
+  const startReplay = (trace: TracePoint[]) => {
+    setReplayTrace(trace);
+    mapRef.current?.fitToCoordinates(trace, {
+      edgePadding: { top: 50, right: 50, bottom: 50, left: 50 },
+      animated: true
+    });
+
+    const step = (index: number) => {
+      setReplayIndex(index);
+      if (index >= trace.length - 1) {
+        replayTimer.current = null;
+        return;
+      }
+      const recordedDelay = (trace[index + 1].timestamp ?? 0) - (trace[index].timestamp ?? 0);
+      const delay = Math.min(1000, Math.max(50, recordedDelay > 0 ? recordedDelay / REPLAY_SPEED : 200));
+      replayTimer.current = setTimeout(() => step(index + 1), delay);
+    };
+    step(0);
+  };
+
+  // Stop a running replay when leaving the screen
   useEffect(() => {
-    if (isRiderView && pathCoordinates.length > 0) {
-      // Find closest point on path
-      const currentIndex = findClosestPointIndex(currentLocation, pathCoordinates);
-      
-      // Calculate next turn
-      const turnInfo = calculateNextTurn(pathCoordinates, currentIndex);
-      setNextTurn(turnInfo);
-
-      // Calculate remaining distance
-      let remainingDist = 0;
-      for (let i = currentIndex; i < pathCoordinates.length - 1; i++) {
-        remainingDist += calculateDistance(pathCoordinates[i], pathCoordinates[i + 1]);
+    return () => {
+      if (replayTimer.current) {
+        clearTimeout(replayTimer.current);
       }
-      setRemainingDistance(remainingDist);
+    };
+  }, []);
 
-      // Estimate time (assuming average speed of 15 km/h)
-      const estimatedTimeMinutes = (remainingDist / 1000) / 15 * 60;
-      setEstimatedTime(estimatedTimeMinutes);
+  // Switch between following the rider and showing the whole route
+  const toggleNavigationMode = () => {
+    const mode = navigationMode === 'follow' ? 'overview' : 'follow';
+    setNavigationMode(mode);
+    if (mode === 'overview' && pathCoordinates.length > 0) {
+      mapRef.current?.fitToCoordinates(pathCoordinates, {
+        edgePadding: { top: 50, right: 50, bottom: 50, left: 50 },
+        animated: true
+      });
     }
-  }, [currentLocation, isRiderView, pathCoordinates]);
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -780,6 +1226,22 @@ export default function LocationCommuter() {
         </View>
       </View>
 
+      {/* Search Suggestions */}
+      {searchResults.length > 1 && (
+        <View style={styles.suggestionList}>
+          {searchResults.map((result, index) => (
+            <TouchableOpacity
+              key={`${result.display_name}-${index}`}
+              style={styles.suggestionItem}
+              onPress={() => handleSelectSuggestion(result)}
+            >
+              <Ionicons name="location-outline" size={16} color="#0d4217" />
+              <Text style={styles.suggestionText} numberOfLines={1}>{result.display_name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {/* Error Message */}
       {searchError && (
         <View style={styles.errorContainer}>
@@ -802,6 +1264,41 @@ export default function LocationCommuter() {
           initialRegion={region}
           onRegionChangeComplete={setRegion}
         >
+          {/* Reachable Service Area */}
+          {serviceArea.length > 2 && (
+            <Polygon
+              coordinates={serviceArea}
+              strokeWidth={1}
+              strokeColor="rgba(13, 66, 23, 0.6)"
+              fillColor="rgba(13, 66, 23, 0.1)"
+              zIndex={0}
+            />
+          )}
+
+          {/* Road Closures and Flooded Areas */}
+          {activeClosures.map(closure => [
+            closure.polygon && (
+              <Polygon
+                key={`closure-${closure.id}`}
+                coordinates={closure.polygon}
+                strokeWidth={2}
+                strokeColor={closure.kind === 'closed' ? '#e74c3c' : '#f39c12'}
+                fillColor={closure.kind === 'closed' ? 'rgba(231, 76, 60, 0.25)' : 'rgba(243, 156, 18, 0.2)'}
+                zIndex={1}
+              />
+            ),
+            ...(closure.wayIds ?? []).map(wayId => (
+              <Polyline
+                key={`closure-${closure.id}-${wayId}`}
+                coordinates={pathFinder.getWayCoordinates(wayId)}
+                strokeWidth={5}
+                strokeColor={closure.kind === 'closed' ? '#e74c3c' : '#f39c12'}
+                lineDashPattern={[6, 4]}
+                zIndex={1}
+              />
+            )),
+          ])}
+
           {/* Current Location Marker */}
           <Marker
             coordinate={{
@@ -831,10 +1328,40 @@ export default function LocationCommuter() {
             </Marker>
           )}
 
+          {/* Stop Markers */}
+          {stops.map((stop, index) => (
+            <Marker
+              key={`stop-${index}`}
+              coordinate={{
+                latitude: stop.latitude,
+                longitude: stop.longitude
+              }}
+              anchor={{ x: 0.5, y: 1.0 }}
+            >
+              <View style={styles.stopMarker}>
+                <Text style={styles.stopMarkerText}>{index + 1}</Text>
+              </View>
+            </Marker>
+          ))}
+
+          {/* Alternative Route Polylines, tap to select */}
+          {routeOptions.map((option, index) => index !== selectedRouteIndex && (
+            <Polyline
+              key={`route-${index}`}
+              coordinates={selectLevelOfDetail(routeLevels[index], region.latitudeDelta)}
+              strokeWidth={4}
+              strokeColor="#9e9e9e"
+              zIndex={0}
+              tappable={true}
+              onPress={() => selectRoute(routeOptions, index)}
+              geodesic={true}
+            />
+          ))}
+
           {/* Path Polyline */}
           {pathCoordinates.length > 0 && (
             <Polyline
-              coordinates={pathCoordinates}
+              coordinates={selectLevelOfDetail(pathLevels, region.latitudeDelta)}
               strokeWidth={4}
               strokeColor="#0d4217"
               lineDashPattern={[1]}
@@ -843,6 +1370,28 @@ export default function LocationCommuter() {
               geodesic={true}
             />
           )}
+
+          {/* Replayed Trip */}
+          {replayTrace.length > 1 && (
+            <Polyline
+              coordinates={replayTrace}
+              strokeWidth={3}
+              strokeColor="#1e88e5"
+              zIndex={2}
+            />
+          )}
+          {replayTrace[replayIndex] && (
+            <Marker
+              coordinate={{
+                latitude: replayTrace[replayIndex].latitude,
+                longitude: replayTrace[replayIndex].longitude
+              }}
+              anchor={{ x: 0.5, y: 0.5 }}
+              zIndex={3}
+            >
+              <MaterialIcons name="directions-bike" size={24} color="#1e88e5" />
+            </Marker>
+          )}
         </MapView>
 
         {/* Navigation Info */}
@@ -857,8 +1406,75 @@ export default function LocationCommuter() {
             </Text>
           </View>
         )}
+
+        {/* Route computation progress */}
+        {routeProgress && (
+          <View style={styles.loadingContainer} pointerEvents="none">
+            <ActivityIndicator size="large" color="#0d4217" />
+            <Text style={styles.loadingText}>
+              {ROUTE_STAGE_LABELS[routeProgress.stage]}
+              {routeProgress.total > 0 ? ` ${Math.round(100 * routeProgress.completed / routeProgress.total)}%` : ''}
+            </Text>
+          </View>
+        )}
       </View>
 
+      {/* Stops */}
+      {stops.length > 0 && (
+        <View style={styles.stopList}>
+          {stops.map((stop, index) => (
+            <View key={`stop-item-${index}`} style={styles.stopItem}>
+              <Text style={styles.stopItemText} numberOfLines={1}>
+                {index + 1}. {stop.address || stop.name || `Stop ${index + 1}`}
+              </Text>
+              <TouchableOpacity onPress={() => handleRemoveStop(index)}>
+                <Ionicons name="close-circle" size={18} color="#c62828" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Route Options */}
+      {!isRiderView && routeOptions.length > 1 && (
+        <View style={styles.routeOptions}>
+          {routeOptions.map((option, index) => (
+            <TouchableOpacity
+              key={`route-option-${index}`}
+              style={[styles.routeOption, index === selectedRouteIndex && styles.selectedRouteOption]}
+              onPress={() => selectRoute(routeOptions, index)}
+            >
+              <Text style={[styles.routeOptionTime, index === selectedRouteIndex && styles.selectedRouteOptionText]}>
+                {Math.round(option.result.estimatedTime)} min
+              </Text>
+              <Text style={[styles.routeOptionDetails, index === selectedRouteIndex && styles.selectedRouteOptionText]}>
+                {option.result.distance.toFixed(1)} km • ₱{option.result.fare.toFixed(0)}
+              </Text>
+              {getMainStreet(option.maneuvers) && (
+                <Text
+                  style={[styles.routeOptionDetails, index === selectedRouteIndex && styles.selectedRouteOptionText]}
+                  numberOfLines={1}
+                >
+                  via {getMainStreet(option.maneuvers)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Add Stop Button */}
+      {destination && stops.length < MAX_STOPS && (
+        <TouchableOpacity
+          style={styles.addStopButton}
+          onPress={handleAddStop}
+          disabled={isLoading || isBooking}
+        >
+          <Ionicons name="add-circle-outline" size={18} color="#0d4217" />
+          <Text style={styles.addStopButtonText}>ADD AS STOP</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Choose Button */}
       <TouchableOpacity 
         style={[
@@ -903,6 +1519,19 @@ export default function LocationCommuter() {
             />
           </TouchableOpacity>
           
+          {isRiderView && (
+            <TouchableOpacity
+              style={[styles.controlButton, navigationMode === 'follow' && styles.activeControlButton]}
+              onPress={toggleNavigationMode}
+            >
+              <MaterialIcons
+                name={navigationMode === 'follow' ? "navigation" : "zoom-out-map"}
+                size={24}
+                color={navigationMode === 'follow' ? "#FFFFFF" : "#000000"}
+              />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity
             style={[styles.controlButton, mapStyle === 'satellite' && styles.activeControlButton]}
             onPress={() => handleMapStyleChange(mapStyle === 'satellite' ? 'standard' : 'satellite')}
@@ -924,6 +1553,23 @@ export default function LocationCommuter() {
               color={showTraffic ? "#FFFFFF" : "#000000"}
             />
           </TouchableOpacity>
+
+          {pathCoordinates.length > 0 && (
+            <TouchableOpacity style={styles.controlButton} onPress={handleExportTrip}>
+              <MaterialIcons name="share" size={24} color="#000000" />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.controlButton, replayTrace.length > 0 && styles.activeControlButton]}
+            onPress={handleReplayTrip}
+          >
+            <MaterialIcons
+              name={replayTrace.length > 0 ? "stop" : "replay"}
+              size={24}
+              color={replayTrace.length > 0 ? "#FFFFFF" : "#000000"}
+            />
+          </TouchableOpacity>
         </View>
       </View>
     </SafeAreaView>
@@ -962,6 +1608,25 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     color: '#000',
   },
+  suggestionList: {
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#bed2d0',
+  },
+  suggestionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  suggestionText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#000',
+  },
   mapContainer: {
     flex: 1,
     position: 'relative',
@@ -1000,6 +1665,89 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  stopMarker: {
+    backgroundColor: '#FFD700',
+    borderRadius: 14,
+    width: 28,
+    height: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#0d4217'
+  },
+  stopMarkerText: {
+    color: '#0d4217',
+    fontWeight: 'bold',
+  },
+  stopList: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    gap: 4,
+  },
+  stopItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  stopItemText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#0d4217',
+    marginRight: 8,
+  },
+  addStopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: '#0d4217',
+  },
+  addStopButtonText: {
+    color: '#0d4217',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  routeOptions: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginTop: 12,
+    gap: 8,
+  },
+  routeOption: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#bed2d0',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  selectedRouteOption: {
+    backgroundColor: '#0d4217',
+    borderColor: '#0d4217',
+  },
+  routeOptionTime: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#0d4217',
+  },
+  routeOptionDetails: {
+    fontSize: 12,
+    color: '#666',
+  },
+  selectedRouteOptionText: {
+    color: '#fff',
+  },
   chooseButton: {
     backgroundColor: '#FFD700',
     paddingVertical: 16,
@@ -1,6 +1,7 @@
 import Constants from 'expo-constants';
 import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ZoneTags } from '../utils/serviceZones';
 
 // Use the user's local IP address as the primary server URL.
 // Fallback to Constants.expoConfig?.extra?.serverUrl if the IP is not available (less likely).
@@ -152,17 +153,29 @@ const rideAPI = {
       type: string;
       coordinates: [number, number];
       address: string;
+      zone?: ZoneTags; // For zone-based pricing and dispatch, see utils/serviceZones
     };
     dropoffLocation: {
       type: string;
       coordinates: [number, number];
       address: string;
+      zone?: ZoneTags;
     };
+    stops?: {
+      type: string;
+      coordinates: [number, number];
+      address: string;
+      zone?: ZoneTags;
+    }[];
     fare: number;
     distance: number;
     duration: number;
     paymentMethod: string;
     status: string;
+    route?: {
+      polyline: string; // Google encoded polyline, see utils/polyline
+      precision: number;
+    };
   }) => {
     try {
       // Add necessary fields for driver visibility
@@ -240,17 +253,51 @@ const rideAPI = {
     const response = await api.get(`/api/rides/${id}`);
     return response.data;
   },
+  acceptRide: async (id: string) => {
+    const response = await api.patch(`/api/rides/${id}/accept`);
+    return response.data;
+  },
   updateRideStatus: async (id: string, status: string) => {
     const response = await api.put(`/api/rides/${id}/status`, { status });
     return response.data;
   },
+  getNearbyRides: async (location: { latitude: number; longitude: number }, maxDistance: number = 5000) => {
+    const response = await api.get('/api/rides/nearby', {
+      params: { latitude: location.latitude, longitude: location.longitude, maxDistance }
+    });
+    return response.data;
+  },
   getActiveRide: async () => {
     const response = await api.get('/api/rides/active');
     return response.data;
   },
 };
 
-export { authAPI, userAPI, rideAPI };
+// Road closure API endpoints; closures come back with ISO times, see utils/roadClosures parseRoadClosure
+const closureAPI = {
+  getClosures: async () => {
+    const response = await api.get('/api/closures');
+    return response.data;
+  },
+  reportClosure: async (closure: {
+    kind: 'closed' | 'avoid';
+    reason?: string;
+    polygon?: { latitude: number; longitude: number }[];
+    wayIds?: number[];
+    penalty?: number;
+    startsAt?: string;
+    endsAt?: string;
+  }) => {
+    const response = await api.post('/api/closures', closure);
+    return response.data;
+  },
+  removeClosure: async (id: string) => {
+    const response = await api.delete(`/api/closures/${id}`);
+    return response.data;
+  },
+};
+
+export { authAPI, userAPI, rideAPI, closureAPI };
 export type { UserData, AuthResponse };
 
 export default api; 
\ No newline at end of file
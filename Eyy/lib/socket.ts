@@ -1,5 +1,6 @@
 import { io } from 'socket.io-client';
 import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Get the server URL from environment variables or use a default
 const SOCKET_URL = Constants.expoConfig?.extra?.serverUrl || 'http://localhost:3000';
@@ -17,4 +18,13 @@ export const createSocket = () => {
   return socket;
 };
 
+// Connect as the signed-in user; the server only accepts ride updates from the ride's commuter or driver
+export const connectSocket = async () => {
+  socket.auth = { token: await AsyncStorage.getItem('token') };
+  if (!socket.connected) {
+    socket.connect();
+  }
+  return socket;
+};
+
 export default socket; 
\ No newline at end of file
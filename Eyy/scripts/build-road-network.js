@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+/**
+ * Builds the offline Naga City road network extract that ships with the app.
+ *
+ * Usage:
+ *   node ./scripts/build-road-network.js [--version <n>] [--out <dir>]
+ *
+ * Without --out the extract is written to assets/data/naga-road-network.json and
+ * bundled on the next build. With --out the extract and a manifest.json are
+ * written to <dir>, ready to be hosted at the app's `roadNetworkManifestUrl` so
+ * installed apps can download the newer extract.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+const EXTRACT_FILE = 'naga-road-network.json';
+const ZONES_PATH = path.join(__dirname, '..', 'assets', 'data', 'naga-zones.json');
+
+// Keep in sync with PathFinder.ROAD_TYPES in utils/pathfinding.ts
+const HIGHWAY_TYPES = [
+  'motorway', 'motorway_link',
+  'trunk', 'trunk_link',
+  'primary', 'primary_link',
+  'secondary', 'secondary_link',
+  'tertiary', 'tertiary_link',
+  'residential', 'unclassified', 'living_street',
+  'service',
+];
+
+// Keep in sync with PathFinder.POI_KEYS and PathFinder.BARANGAY_PLACE_TYPES
+const POI_KEYS = ['amenity', 'shop', 'tourism', 'leisure', 'office', 'healthcare', 'public_transport'];
+const BARANGAY_PLACE_TYPES = ['village', 'suburb', 'quarter', 'neighbourhood', 'hamlet'];
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--version') args.version = parseInt(argv[++i], 10);
+    else if (argv[i] === '--out') args.out = argv[++i];
+  }
+  return args;
+}
+
+// Default version is the build date as YYYYMMDD so newer extracts always compare higher
+function defaultVersion() {
+  return parseInt(new Date().toISOString().slice(0, 10).replace(/-/g, ''), 10);
+}
+
+// Box around the 'city' zones, the service area the app takes bookings in (see utils/serviceZones.ts)
+function loadServiceAreaBounds() {
+  const zones = JSON.parse(fs.readFileSync(ZONES_PATH, 'utf8'));
+  const positions = [];
+  zones.features
+    .filter((feature) => feature.properties && feature.properties.kind === 'city')
+    .forEach((feature) => {
+      const polygons = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+      polygons.forEach((polygon) => positions.push(...polygon[0]));
+    });
+  if (positions.length === 0) {
+    throw new Error(`No city zone in ${ZONES_PATH}`);
+  }
+
+  const longitudes = positions.map((position) => position[0]);
+  const latitudes = positions.map((position) => position[1]);
+  return {
+    north: Math.max(...latitudes),
+    south: Math.min(...latitudes),
+    east: Math.max(...longitudes),
+    west: Math.min(...longitudes),
+  };
+}
+
+async function fetchRoadNetwork(bounds) {
+  const bbox = `${bounds.south},${bounds.west},${bounds.north},${bounds.east}`;
+  const query = `
+    [out:json][timeout:90];
+    way["highway"~"^(${HIGHWAY_TYPES.join('|')})$"](${bbox})->.roads;
+    (
+      .roads;
+      node(w.roads);
+      rel(bw.roads)["type"="restriction"];
+      node["name"][~"^(${POI_KEYS.join('|')})$"~"."](${bbox});
+      node["addr:street"](${bbox});
+      node["place"~"^(${BARANGAY_PLACE_TYPES.join('|')})$"](${bbox});
+    );
+    out body;
+  `;
+
+  const response = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    body: query,
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  // Drop metadata the app never reads to keep the bundle small
+  return data.elements.map((element) => {
+    if (element.type === 'node') {
+      // Keep tags so POI, address and place nodes can be used for reverse geocoding
+      return { type: 'node', id: element.id, lat: element.lat, lon: element.lon, tags: element.tags };
+    }
+    return { type: element.type, id: element.id, nodes: element.nodes, members: element.members, tags: element.tags };
+  });
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const version = args.version || defaultVersion();
+
+  const bounds = loadServiceAreaBounds();
+  console.log(`Fetching Naga City road network (version ${version})...`);
+  const elements = await fetchRoadNetwork(bounds);
+
+  const extract = {
+    version,
+    generatedAt: new Date().toISOString(),
+    bounds,
+    elements,
+  };
+
+  const outDir = args.out ? path.resolve(args.out) : path.join(__dirname, '..', 'assets', 'data');
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const extractPath = path.join(outDir, EXTRACT_FILE);
+  fs.writeFileSync(extractPath, JSON.stringify(extract));
+  console.log(`Wrote ${elements.length} elements to ${extractPath}`);
+
+  if (args.out) {
+    const manifest = { version, url: EXTRACT_FILE, generatedAt: extract.generatedAt };
+    fs.writeFileSync(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+    console.log(`Wrote manifest for version ${version}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to build road network extract:', error);
+  process.exit(1);
+});
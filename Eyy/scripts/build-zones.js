@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+
+/**
+ * Rebuilds the Naga City service zones that ship with the app from the
+ * OpenStreetMap administrative boundaries: the city limit and every barangay.
+ *
+ * Usage:
+ *   node ./scripts/build-zones.js [--city-relation <osm relation id>]
+ *
+ * Franchise zones are not in OpenStreetMap; they are kept from the current
+ * assets/data/naga-zones.json, so edit them there. Run
+ * scripts/build-road-network.js afterwards if the city limit moved, since the
+ * road network extract covers the box around it.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+const ZONES_PATH = path.join(__dirname, '..', 'assets', 'data', 'naga-zones.json');
+
+// Search box for the city relation; Naga is admin level 6 and its barangays level 10
+const SEARCH_BBOX = '13.50,123.05,13.80,123.40';
+const CITY_ADMIN_LEVEL = '6';
+const BARANGAY_ADMIN_LEVEL = '10';
+const CITY_NAME = 'Naga';
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--city-relation') args.cityRelation = parseInt(argv[++i], 10);
+  }
+  return args;
+}
+
+async function fetchBoundaries(cityRelation) {
+  const city = cityRelation
+    ? `rel(${cityRelation})`
+    : `rel["boundary"="administrative"]["admin_level"="${CITY_ADMIN_LEVEL}"]["name"="${CITY_NAME}"](${SEARCH_BBOX})`;
+  const query = `
+    [out:json][timeout:120];
+    ${city}->.city;
+    .city map_to_area->.cityArea;
+    rel(area.cityArea)["boundary"="administrative"]["admin_level"="${BARANGAY_ADMIN_LEVEL}"]->.barangays;
+    (.city; .barangays;);
+    out geom;
+  `;
+
+  const response = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    body: query,
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.elements.filter((element) => element.type === 'relation');
+}
+
+function samePosition(a, b) {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+// Joins boundary ways end to end into closed rings of [longitude, latitude] positions
+function assembleRings(ways, relationId) {
+  const remaining = ways.map((way) => way.slice());
+  const rings = [];
+  while (remaining.length > 0) {
+    let ring = remaining.shift();
+    while (!samePosition(ring[0], ring[ring.length - 1])) {
+      const end = ring[ring.length - 1];
+      const index = remaining.findIndex((way) => samePosition(way[0], end) || samePosition(way[way.length - 1], end));
+      if (index === -1) {
+        throw new Error(`Boundary of relation ${relationId} has a gap at ${end}`);
+      }
+      const [next] = remaining.splice(index, 1);
+      ring = ring.concat((samePosition(next[0], end) ? next : next.reverse()).slice(1));
+    }
+    rings.push(ring);
+  }
+  return rings;
+}
+
+// Ray casting point-in-ring test, like isPointInPolygon in utils/roadClosures.ts
+function isInRing(position, ring) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > position[1]) !== (yj > position[1]) && position[0] < ((xj - xi) * (position[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Builds a GeoJSON geometry from the outer and inner member ways of a boundary relation
+function toGeometry(relation) {
+  const memberWays = (role) =>
+    relation.members
+      .filter((member) => member.type === 'way' && member.geometry && (member.role || 'outer') === role)
+      .map((member) => member.geometry.map((position) => [position.lon, position.lat]));
+
+  const polygons = assembleRings(memberWays('outer'), relation.id).map((outer) => [outer]);
+  assembleRings(memberWays('inner'), relation.id).forEach((inner) => {
+    const polygon = polygons.find(([outer]) => isInRing(inner[0], outer));
+    if (polygon) polygon.push(inner);
+  });
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function slugify(name) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const current = JSON.parse(fs.readFileSync(ZONES_PATH, 'utf8'));
+  const franchises = current.features.filter((feature) => feature.properties && feature.properties.kind === 'franchise');
+
+  console.log('Fetching Naga City and barangay boundaries...');
+  const relations = await fetchBoundaries(args.cityRelation);
+  const city = relations.find((relation) =>
+    args.cityRelation ? relation.id === args.cityRelation : relation.tags.admin_level === CITY_ADMIN_LEVEL
+  );
+  if (!city) {
+    throw new Error('City boundary relation not found; pass --city-relation <id>');
+  }
+
+  const feature = (relation, id, kind) => ({
+    type: 'Feature',
+    properties: { id, name: relation.tags.name, kind, osmRelation: relation.id },
+    geometry: toGeometry(relation),
+  });
+  const barangays = relations
+    .filter((relation) => relation.tags.admin_level === BARANGAY_ADMIN_LEVEL)
+    .sort((a, b) => a.tags.name.localeCompare(b.tags.name))
+    .map((relation) => feature(relation, `barangay-${slugify(relation.tags.name)}`, 'barangay'));
+
+  const zones = {
+    type: 'FeatureCollection',
+    version: (current.version || 0) + 1,
+    generatedAt: new Date().toISOString(),
+    source: 'OpenStreetMap administrative boundaries; franchise zones are maintained by hand',
+    features: [feature(city, 'naga-city', 'city'), ...barangays, ...franchises],
+  };
+
+  fs.writeFileSync(ZONES_PATH, JSON.stringify(zones, null, 2) + '\n');
+  console.log(`Wrote the city limit, ${barangays.length} barangays and ${franchises.length} franchise zones to ${ZONES_PATH}`);
+}
+
+main().catch((error) => {
+  console.error('Failed to build service zones:', error);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+import { CompactGraphBuilder } from '../compactGraph';
+import { SpatialIndex } from '../spatialIndex';
+import type { Point } from '../pathfinding';
+
+const STREET_SECONDS = 30; // Travel time along one block
+
+const nodeId = (row: number, col: number) => `n${row * 3 + col + 1}`;
+
+// A 3x3 grid of two-way streets ~220 m apart, with way IDs like roads loaded from OSM:
+// rows n1-n2-n3, n4-n5-n6 and n7-n8-n9 from south to north
+function buildGrid(): CompactGraphBuilder {
+  const builder = new CompactGraphBuilder();
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      builder.addNode(nodeId(row, col), { latitude: 13.6 + row * 0.002, longitude: 123.17 + col * 0.002 });
+    }
+  }
+
+  const addStreet = (from: string, to: string, wayId: number) => {
+    builder.addEdge(from, to, STREET_SECONDS, wayId);
+    builder.addEdge(to, from, STREET_SECONDS, wayId);
+  };
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 2; j++) {
+      addStreet(nodeId(i, j), nodeId(i, j + 1), 100 + i);
+      addStreet(nodeId(j, i), nodeId(j + 1, i), 200 + i);
+    }
+  }
+  return builder;
+}
+
+describe('SpatialIndex', () => {
+  it('snaps onto the road rather than a weightless edge added by hand', () => {
+    const builder = buildGrid();
+    // A shortcut across the block from n1 to n5, without a travel time or an OSM way
+    builder.addEdge('n1', 'n5', NaN);
+    builder.addEdge('n5', 'n1', NaN);
+    const index = SpatialIndex.build(builder.build());
+
+    // ~15 m from the shortcut, ~67 m north of the n1-n2 street
+    const point: Point = { latitude: 13.6006, longitude: 123.1708 };
+    const [nearest] = index.nearestEdges(point, 1);
+    expect([nearest.fromId, nearest.toId].sort()).toEqual(['n1', 'n2']);
+    expect(nearest.distance).toBeGreaterThan(60);
+    expect(nearest.distance).toBeLessThan(70);
+    expect(index.edgesWithinRadius(point, 50)).toEqual([]);
+  });
+
+  it('only indexes nodes on roads', () => {
+    const builder = buildGrid();
+    // A place linked to the grid by hand, next to n1
+    builder.addNode('kiosk', { latitude: 13.6001, longitude: 123.1701 });
+    builder.addEdge('kiosk', 'n1', NaN);
+    const index = SpatialIndex.build(builder.build());
+
+    const [nearest] = index.nearestNodes({ latitude: 13.6001, longitude: 123.1701 }, 1);
+    expect(nearest.nodeId).toBe('n1');
+  });
+});
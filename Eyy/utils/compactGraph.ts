@@ -0,0 +1,456 @@
+import * as FileSystem from 'expo-file-system';
+import type { Point } from './pathfinding';
+import { RouteTask, runTask } from './routeWorker';
+
+// Binary layout, in the byte order of the device that wrote it (little-endian on the
+// phones the app runs on; a file with the other byte order is rejected when read):
+//   header   6 x uint32: magic, format version, node count, edge count, ID characters, reserved
+//   Float64  coordinates (2 per node: latitude, longitude), edge way IDs (NaN if unknown)
+//   Int32    offsets (node count + 1), targets
+//   Float32  weights
+//   Uint16   node IDs as UTF-16 code units, separated by '\n'
+// Every section starts aligned to its element size, so deserializing only creates views.
+const GRAPH_MAGIC = 0x47595945; // 'EYYG'
+const GRAPH_MAGIC_SWAPPED = 0x45595947; // GRAPH_MAGIC read with the other byte order
+const GRAPH_FORMAT_VERSION = 1;
+const HEADER_BYTES = 24;
+const ID_SEPARATOR = 10; // '\n'
+
+// Nodes handled between progress updates of a build task
+const BUILD_PROGRESS_STEP = 5000;
+
+/**
+ * Road graph in compressed sparse row form: node `i` has edges `offsets[i]` up to
+ * `offsets[i + 1]`, each going to node `targets[e]` with travel time `weights[e]`.
+ * This is the only form the PathFinder keeps its graph in; build one with
+ * CompactGraphBuilder.
+ */
+export class CompactGraph {
+  private indexById: Map<string, number> | null = null;
+
+  constructor(
+    readonly ids: string[], // Graph node ID of each node index, e.g. 'osm_123456'
+    readonly coordinates: Float64Array, // latitude, longitude of each node
+    readonly offsets: Int32Array,
+    readonly targets: Int32Array,
+    readonly weights: Float32Array, // Free-flow travel time in seconds
+    readonly edgeWayIds: Float64Array // OSM way of each edge, NaN if unknown
+  ) {
+    if (coordinates.length !== ids.length * 2 || offsets.length !== ids.length + 1) {
+      throw new Error('Compact graph arrays do not match its node count');
+    }
+    if (targets.length !== weights.length || targets.length !== edgeWayIds.length) {
+      throw new Error('Compact graph arrays do not match its edge count');
+    }
+  }
+
+  get nodeCount(): number {
+    return this.ids.length;
+  }
+
+  get edgeCount(): number {
+    return this.targets.length;
+  }
+
+  /**
+   * Gets the index of a graph node ID.
+   * @returns The index, or -1 if the node is not in the graph.
+   */
+  indexOf(id: string): number {
+    if (!this.indexById) {
+      this.indexById = new Map();
+      this.ids.forEach((nodeId, index) => this.indexById!.set(nodeId, index));
+    }
+    return this.indexById.get(id) ?? -1;
+  }
+
+  hasNode(id: string): boolean {
+    return this.indexOf(id) >= 0;
+  }
+
+  getPoint(index: number): Point {
+    return { latitude: this.coordinates[index * 2], longitude: this.coordinates[index * 2 + 1] };
+  }
+
+  /**
+   * Gets the coordinates of a graph node ID.
+   * @returns The point, or undefined if the node is not in the graph.
+   */
+  getNodePoint(id: string): Point | undefined {
+    const index = this.indexOf(id);
+    return index >= 0 ? this.getPoint(index) : undefined;
+  }
+
+  /**
+   * Gets the nodes a node has edges to.
+   * @returns The neighbor node IDs, empty if the node is not in the graph.
+   */
+  getNeighborIds(id: string): string[] {
+    const index = this.indexOf(id);
+    const neighborIds: string[] = [];
+    if (index < 0) return neighborIds;
+    for (let edge = this.offsets[index]; edge < this.offsets[index + 1]; edge++) {
+      neighborIds.push(this.ids[this.targets[edge]]);
+    }
+    return neighborIds;
+  }
+
+  /**
+   * Finds the directed edge between two nodes.
+   * @returns The edge index, or -1 if there is no such edge.
+   */
+  findEdge(fromId: string, toId: string): number {
+    const from = this.indexOf(fromId);
+    const to = this.indexOf(toId);
+    if (from < 0 || to < 0) return -1;
+    for (let edge = this.offsets[from]; edge < this.offsets[from + 1]; edge++) {
+      if (this.targets[edge] === to) return edge;
+    }
+    return -1;
+  }
+
+  /**
+   * Copies the graph without some of its nodes and their edges.
+   * @param keep 1 for each node index to keep.
+   * @returns The smaller graph.
+   */
+  subgraph(keep: Uint8Array): CompactGraph {
+    return runTask(this.subgraphTask(keep));
+  }
+
+  /**
+   * Task form of `subgraph`, for running it on a RouteExecutor.
+   */
+  *subgraphTask(keep: Uint8Array): RouteTask<CompactGraph> {
+    const builder = new CompactGraphBuilder();
+    for (let index = 0; index < this.nodeCount; index++) {
+      if (index % BUILD_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: index, total: this.nodeCount };
+      }
+      if (keep[index]) builder.addNode(this.ids[index], this.getPoint(index));
+    }
+    for (let index = 0; index < this.nodeCount; index++) {
+      if (index % BUILD_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: index, total: this.nodeCount };
+      }
+      if (!keep[index]) continue;
+      for (let edge = this.offsets[index]; edge < this.offsets[index + 1]; edge++) {
+        builder.addEdge(this.ids[index], this.ids[this.targets[edge]], this.weights[edge], this.edgeWayIds[edge]);
+      }
+    }
+    return yield* builder.buildTask();
+  }
+
+  /**
+   * Writes the graph in the binary format read by `deserialize`.
+   * @returns The serialized graph.
+   */
+  serialize(): ArrayBuffer {
+    const idCharacters = this.ids.reduce((sum, id) => sum + id.length + 1, 0);
+    const n = this.nodeCount;
+    const m = this.edgeCount;
+    const byteLength = HEADER_BYTES + 8 * (2 * n + m) + 4 * (n + 1 + m) + 4 * m + 2 * idCharacters;
+
+    const buffer = new ArrayBuffer(byteLength);
+    const header = new Uint32Array(buffer, 0, HEADER_BYTES / 4);
+    header.set([GRAPH_MAGIC, GRAPH_FORMAT_VERSION, n, m, idCharacters, 0]);
+
+    let offset = HEADER_BYTES;
+    const write = (array: Float64Array | Int32Array | Float32Array) => {
+      new Uint8Array(buffer, offset, array.byteLength).set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength));
+      offset += array.byteLength;
+    };
+    write(this.coordinates);
+    write(this.edgeWayIds);
+    write(this.offsets);
+    write(this.targets);
+    write(this.weights);
+
+    const chars = new Uint16Array(buffer, offset, idCharacters);
+    let position = 0;
+    this.ids.forEach(id => {
+      for (let i = 0; i < id.length; i++) {
+        chars[position++] = id.charCodeAt(i);
+      }
+      chars[position++] = ID_SEPARATOR;
+    });
+
+    return buffer;
+  }
+
+  /**
+   * Reads a graph written by `serialize`. The typed arrays are views into `buffer`.
+   * @param buffer The serialized graph.
+   * @returns The graph.
+   * @throws If the data is not a serialized graph of this format version.
+   */
+  static deserialize(buffer: ArrayBuffer): CompactGraph {
+    if (buffer.byteLength < HEADER_BYTES) {
+      throw new Error('Serialized graph is too short');
+    }
+    const [magic, version, n, m, idCharacters] = new Uint32Array(buffer, 0, HEADER_BYTES / 4);
+    if (magic === GRAPH_MAGIC_SWAPPED) {
+      throw new Error('Serialized graph was written with the other byte order');
+    }
+    if (magic !== GRAPH_MAGIC) {
+      throw new Error('Not a serialized road graph');
+    }
+    if (version !== GRAPH_FORMAT_VERSION) {
+      throw new Error(`Unsupported road graph format version ${version}`);
+    }
+    const byteLength = HEADER_BYTES + 8 * (2 * n + m) + 4 * (n + 1 + m) + 4 * m + 2 * idCharacters;
+    if (buffer.byteLength !== byteLength) {
+      throw new Error(`Serialized graph should be ${byteLength} bytes, got ${buffer.byteLength}`);
+    }
+
+    let offset = HEADER_BYTES;
+    const read = <T>(type: new (b: ArrayBuffer, o: number, l: number) => T, length: number, bytesPerElement: number): T => {
+      const array = new type(buffer, offset, length);
+      offset += length * bytesPerElement;
+      return array;
+    };
+    const coordinates = read(Float64Array, 2 * n, 8);
+    const edgeWayIds = read(Float64Array, m, 8);
+    const offsets = read(Int32Array, n + 1, 4);
+    const targets = read(Int32Array, m, 4);
+    const weights = read(Float32Array, m, 4);
+    const chars = read(Uint16Array, idCharacters, 2);
+
+    // Decode in chunks; String.fromCharCode takes its arguments on the stack
+    let text = '';
+    for (let start = 0; start < chars.length; start += 8192) {
+      text += String.fromCharCode(...chars.subarray(start, Math.min(start + 8192, chars.length)));
+    }
+    const ids = text.split('\n');
+    ids.pop(); // Every ID ends with a separator
+
+    return new CompactGraph(ids, coordinates, offsets, targets, weights, edgeWayIds);
+  }
+}
+
+/**
+ * Collects nodes and edges, e.g. of the OSM ways of a tile, and packs them into a
+ * CompactGraph. Start from an existing graph to add to it; the graph itself never
+ * changes, `build` returns a new one.
+ */
+export class CompactGraphBuilder {
+  private ids: string[] = [];
+  private indexById = new Map<string, number>();
+  private coordinates: number[] = [];
+  private edgeSources: number[] = [];
+  private edgeTargets: number[] = [];
+  private edgeWeights: number[] = [];
+  private edgeWays: number[] = [];
+
+  /**
+   * @param base Optional graph whose nodes and edges the builder starts with.
+   */
+  constructor(base?: CompactGraph) {
+    if (base) this.addGraph(base);
+  }
+
+  get nodeCount(): number {
+    return this.ids.length;
+  }
+
+  hasNode(id: string): boolean {
+    return this.indexById.has(id);
+  }
+
+  /**
+   * Adds a node; a node that is already there keeps its coordinates.
+   * @param id The graph node ID.
+   * @param point The coordinates of the node.
+   */
+  addNode(id: string, point: Point): void {
+    if (this.indexById.has(id)) return;
+    this.indexById.set(id, this.ids.length);
+    this.ids.push(id);
+    this.coordinates.push(point.latitude, point.longitude);
+  }
+
+  /**
+   * Adds a directed edge between two nodes that were added. Adding an edge again
+   * replaces its weight; its OSM way is the first one given.
+   * @param fromId The ID of the edge's start node.
+   * @param toId The ID of the edge's end node.
+   * @param weight The travel time in seconds.
+   * @param wayId The OSM way the edge belongs to, NaN if none.
+   */
+  addEdge(fromId: string, toId: string, weight: number, wayId: number = NaN): void {
+    const from = this.indexById.get(fromId);
+    const to = this.indexById.get(toId);
+    if (from === undefined || to === undefined) return;
+    this.edgeSources.push(from);
+    this.edgeTargets.push(to);
+    this.edgeWeights.push(weight);
+    this.edgeWays.push(wayId);
+  }
+
+  /**
+   * Adds every node and edge of a graph, e.g. the graph of a newly loaded tile. Nodes
+   * with the same ID are the same node, which joins the graphs.
+   * @param graph The graph to add.
+   */
+  addGraph(graph: CompactGraph): void {
+    runTask(this.addGraphTask(graph));
+  }
+
+  /**
+   * Task form of `addGraph`, for running it on a RouteExecutor.
+   */
+  *addGraphTask(graph: CompactGraph): RouteTask<void> {
+    const indices = new Int32Array(graph.nodeCount);
+    for (let node = 0; node < graph.nodeCount; node++) {
+      if (node % BUILD_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: node, total: graph.nodeCount };
+      }
+      const id = graph.ids[node];
+      this.addNode(id, graph.getPoint(node));
+      indices[node] = this.indexById.get(id)!;
+    }
+    for (let node = 0; node < graph.nodeCount; node++) {
+      if (node % BUILD_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: node, total: graph.nodeCount };
+      }
+      for (let edge = graph.offsets[node]; edge < graph.offsets[node + 1]; edge++) {
+        this.edgeSources.push(indices[node]);
+        this.edgeTargets.push(indices[graph.targets[edge]]);
+        this.edgeWeights.push(graph.weights[edge]);
+        this.edgeWays.push(graph.edgeWayIds[edge]);
+      }
+    }
+  }
+
+  /**
+   * Packs the nodes and edges into a compact graph, merging edges added more than once.
+   * @returns The graph.
+   */
+  build(): CompactGraph {
+    return runTask(this.buildTask());
+  }
+
+  /**
+   * Task form of `build`, for running it on a RouteExecutor.
+   */
+  *buildTask(): RouteTask<CompactGraph> {
+    const nodeCount = this.ids.length;
+    const added = this.edgeSources.length;
+
+    // Group the edges by start node, keeping the order they were added in
+    const offsets = new Int32Array(nodeCount + 1);
+    this.edgeSources.forEach(source => offsets[source + 1]++);
+    for (let node = 0; node < nodeCount; node++) {
+      offsets[node + 1] += offsets[node];
+    }
+    const order = new Int32Array(added);
+    const next = offsets.slice(0, nodeCount);
+    for (let i = 0; i < added; i++) {
+      order[next[this.edgeSources[i]]++] = i;
+    }
+
+    const targets = new Int32Array(added);
+    const weights = new Float32Array(added);
+    const edgeWayIds = new Float64Array(added);
+    const slotOfTarget = new Map<number, number>();
+    let edgeCount = 0;
+    for (let node = 0; node < nodeCount; node++) {
+      if (node % BUILD_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: node, total: nodeCount };
+      }
+      const start = offsets[node];
+      const end = offsets[node + 1];
+      offsets[node] = edgeCount;
+      slotOfTarget.clear();
+      for (let k = start; k < end; k++) {
+        const i = order[k];
+        const target = this.edgeTargets[i];
+        const slot = slotOfTarget.get(target);
+        if (slot === undefined) {
+          slotOfTarget.set(target, edgeCount);
+          targets[edgeCount] = target;
+          weights[edgeCount] = this.edgeWeights[i];
+          edgeWayIds[edgeCount] = this.edgeWays[i];
+          edgeCount++;
+        } else {
+          weights[slot] = this.edgeWeights[i];
+          if (isNaN(edgeWayIds[slot])) edgeWayIds[slot] = this.edgeWays[i];
+        }
+      }
+    }
+    offsets[nodeCount] = edgeCount;
+
+    return new CompactGraph(
+      this.ids.slice(),
+      new Float64Array(this.coordinates),
+      offsets,
+      targets.slice(0, edgeCount),
+      weights.slice(0, edgeCount),
+      edgeWayIds.slice(0, edgeCount)
+    );
+  }
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunks: string[] = [];
+  let chunk = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    chunk += BASE64_ALPHABET[(triple >> 18) & 63] + BASE64_ALPHABET[(triple >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : '=');
+    if (chunk.length >= 8192) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+  }
+  chunks.push(chunk);
+  return chunks.join('');
+}
+
+function fromBase64(base64: string): ArrayBuffer {
+  const lookup = new Uint8Array(128);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor(clean.length * 3 / 4));
+  let position = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const sextets = [0, 1, 2, 3].map(k => lookup[clean.charCodeAt(i + k)] ?? 0);
+    const triple = (sextets[0] << 18) | (sextets[1] << 12) | (sextets[2] << 6) | sextets[3];
+    if (position < bytes.length) bytes[position++] = (triple >> 16) & 255;
+    if (position < bytes.length) bytes[position++] = (triple >> 8) & 255;
+    if (position < bytes.length) bytes[position++] = triple & 255;
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Saves a graph to a file in the binary format.
+ * @param uri The file URI, e.g. under FileSystem.documentDirectory.
+ * @param graph The graph.
+ * @returns The size of the file in bytes.
+ */
+export async function saveCompactGraph(uri: string, graph: CompactGraph): Promise<number> {
+  const buffer = graph.serialize();
+  await FileSystem.writeAsStringAsync(uri, toBase64(buffer), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return buffer.byteLength;
+}
+
+/**
+ * Loads a graph saved with `saveCompactGraph`, e.g. a road graph from the road network cache.
+ * @param uri The file URI.
+ * @returns The graph.
+ * @throws If the file is not a serialized graph.
+ */
+export async function loadCompactGraph(uri: string): Promise<CompactGraph> {
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  return CompactGraph.deserialize(fromBase64(base64));
+}
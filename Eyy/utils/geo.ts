@@ -0,0 +1,23 @@
+import type { Point } from './pathfinding';
+
+export const EARTH_RADIUS = 6371e3; // meters
+
+/**
+ * Great-circle distance between two points, using the Haversine formula.
+ * @param point1 The first point.
+ * @param point2 The second point.
+ * @returns The distance in meters.
+ */
+export function calculateDistance(point1: Point, point2: Point): number {
+  const φ1 = (point1.latitude * Math.PI) / 180;
+  const φ2 = (point2.latitude * Math.PI) / 180;
+  const Δφ = ((point2.latitude - point1.latitude) * Math.PI) / 180;
+  const Δλ = ((point2.longitude - point1.longitude) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS * c;
+}
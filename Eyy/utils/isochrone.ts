@@ -0,0 +1,207 @@
+import type { PathFinder, Point } from './pathfinding';
+import { EARTH_RADIUS } from './geo';
+
+export interface IsochroneOptions {
+  cellSize?: number; // Grid cell size in meters; smaller follows roads more closely (default 75)
+}
+
+// Corner offsets of a grid cell's boundary edges, counter-clockwise with the cell on the left
+const CELL_SIDES: { neighbor: [number, number]; from: [number, number]; to: [number, number] }[] = [
+  { neighbor: [0, -1], from: [0, 0], to: [1, 0] }, // bottom
+  { neighbor: [1, 0], from: [1, 0], to: [1, 1] }, // right
+  { neighbor: [0, 1], from: [1, 1], to: [0, 1] }, // top
+  { neighbor: [-1, 0], from: [0, 1], to: [0, 0] }, // left
+];
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+
+/**
+ * Builds the outline of the area reachable within a travel time, ready to be drawn
+ * as a react-native-maps `Polygon`. Roads reachable in time are rasterized onto a grid,
+ * including the part of an edge that can be driven before the time runs out, and the
+ * outer boundary of the cells around the start is traced.
+ * @param pathFinder The PathFinder whose graph `travelTimes` was computed on.
+ * @param travelTimes Seconds to each node, from `PathFinder.findReachableNodes`.
+ * @param threshold The travel time in seconds to outline; at most the search budget.
+ * @param options Grid options.
+ * @returns The polygon coordinates, or an empty array if nothing is reachable.
+ */
+export function buildIsochronePolygon(
+  pathFinder: PathFinder,
+  travelTimes: { [nodeId: string]: number },
+  threshold: number,
+  options: IsochroneOptions = {}
+): Point[] {
+  const { cellSize = 75 } = options;
+  const graph = pathFinder.getCompactGraph();
+  const { offsets, targets, weights } = graph;
+
+  // The start node is the one reached at time 0
+  const startId = Object.keys(travelTimes).find(nodeId => travelTimes[nodeId] === 0);
+  const start = startId !== undefined ? graph.indexOf(startId) : -1;
+  if (start < 0) return [];
+
+  // Local metric grid around the start; equirectangular is accurate enough at city scale
+  const origin = graph.getPoint(start);
+  const metersPerLat = (Math.PI / 180) * EARTH_RADIUS;
+  const metersPerLng = metersPerLat * Math.cos((origin.latitude * Math.PI) / 180);
+  const toCell = (point: Point): [number, number] => [
+    Math.floor(((point.longitude - origin.longitude) * metersPerLng) / cellSize),
+    Math.floor(((point.latitude - origin.latitude) * metersPerLat) / cellSize),
+  ];
+
+  const cells = new Set<string>();
+  for (const nodeId in travelTimes) {
+    const time = travelTimes[nodeId];
+    const node = graph.indexOf(nodeId);
+    if (node < 0 || time > threshold) continue;
+
+    const point = graph.getPoint(node);
+    const [x, y] = toCell(point);
+    cells.add(cellKey(x, y));
+
+    for (let edge = offsets[node]; edge < offsets[node + 1]; edge++) {
+      const neighbor = graph.getPoint(targets[edge]);
+      const weight = weights[edge];
+      if (!(weight > 0)) continue;
+
+      // Portion of the edge that can be driven in the remaining time
+      const reach = Math.min(1, (threshold - time) / weight);
+      const length = Math.hypot(
+        (neighbor.longitude - point.longitude) * metersPerLng,
+        (neighbor.latitude - point.latitude) * metersPerLat
+      );
+      const samples = Math.ceil((length * reach) / (cellSize / 2));
+      for (let i = 1; i <= samples; i++) {
+        const fraction = (reach * i) / samples;
+        const [sx, sy] = toCell({
+          latitude: point.latitude + fraction * (neighbor.latitude - point.latitude),
+          longitude: point.longitude + fraction * (neighbor.longitude - point.longitude),
+        });
+        cells.add(cellKey(sx, sy));
+      }
+    }
+  }
+
+  const region = toSimpleRegion(cells, toCell(origin));
+  const ring = traceBoundary(region);
+
+  return ring.map(([x, y]) => ({
+    latitude: origin.latitude + (y * cellSize) / metersPerLat,
+    longitude: origin.longitude + (x * cellSize) / metersPerLng,
+  }));
+}
+
+/**
+ * Keeps the cells connected to the start cell, fills enclosed holes and closes diagonal
+ * pinches, so the region's boundary is a single simple ring.
+ */
+function toSimpleRegion(cells: Set<string>, [startX, startY]: [number, number]): Set<string> {
+  // Connected component around the start cell
+  const region = new Set<string>();
+  const queue: [number, number][] = [[startX, startY]];
+  region.add(cellKey(startX, startY));
+  while (queue.length > 0) {
+    const [x, y] = queue.pop()!;
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const key = cellKey(x + dx, y + dy);
+      if (cells.has(key) && !region.has(key)) {
+        region.add(key);
+        queue.push([x + dx, y + dy]);
+      }
+    }
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    region.forEach(key => {
+      const [x, y] = key.split(':').map(Number);
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    });
+
+    // Flood the outside from a frame around the bounding box; anything not reached is a hole
+    const outside = new Set<string>();
+    const frame: [number, number][] = [[minX - 1, minY - 1]];
+    outside.add(cellKey(minX - 1, minY - 1));
+    while (frame.length > 0) {
+      const [x, y] = frame.pop()!;
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < minX - 1 || nx > maxX + 1 || ny < minY - 1 || ny > maxY + 1) continue;
+        const key = cellKey(nx, ny);
+        if (!region.has(key) && !outside.has(key)) {
+          outside.add(key);
+          frame.push([nx, ny]);
+        }
+      }
+    }
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const key = cellKey(x, y);
+        if (!region.has(key) && !outside.has(key)) {
+          region.add(key);
+          changed = true;
+        }
+      }
+    }
+
+    // Cells touching only at a corner would make the boundary cross itself
+    for (let x = minX - 1; x <= maxX; x++) {
+      for (let y = minY - 1; y <= maxY; y++) {
+        const a = region.has(cellKey(x, y));
+        const b = region.has(cellKey(x + 1, y));
+        const c = region.has(cellKey(x, y + 1));
+        const d = region.has(cellKey(x + 1, y + 1));
+        if (a && d && !b && !c) {
+          region.add(cellKey(x + 1, y));
+          changed = true;
+        } else if (b && c && !a && !d) {
+          region.add(cellKey(x, y));
+          changed = true;
+        }
+      }
+    }
+  }
+
+  return region;
+}
+
+/**
+ * Walks the boundary edges of a simple region counter-clockwise and returns its
+ * corners in grid units, without collinear points.
+ */
+function traceBoundary(region: Set<string>): [number, number][] {
+  const nextCorner = new Map<string, [number, number]>();
+  let start: [number, number] | null = null;
+
+  for (const key of region) {
+    const [x, y] = key.split(':').map(Number);
+    for (const side of CELL_SIDES) {
+      if (region.has(cellKey(x + side.neighbor[0], y + side.neighbor[1]))) continue;
+      const from: [number, number] = [x + side.from[0], y + side.from[1]];
+      nextCorner.set(cellKey(from[0], from[1]), [x + side.to[0], y + side.to[1]]);
+      start ??= from;
+    }
+  }
+
+  if (!start) return [];
+
+  const corners: [number, number][] = [];
+  let current: [number, number] = start;
+  do {
+    corners.push(current);
+    current = nextCorner.get(cellKey(current[0], current[1]))!;
+  } while (current && cellKey(current[0], current[1]) !== cellKey(start[0], start[1]) && corners.length <= nextCorner.size);
+
+  // Drop corners in the middle of straight runs
+  return corners.filter((corner, i) => {
+    const prev = corners[(i - 1 + corners.length) % corners.length];
+    const next = corners[(i + 1) % corners.length];
+    return (corner[0] - prev[0]) * (next[1] - corner[1]) !== (corner[1] - prev[1]) * (next[0] - corner[0]);
+  });
+}
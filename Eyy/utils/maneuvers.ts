@@ -0,0 +1,257 @@
+import type { PathFinder, Point, OSMWay } from './pathfinding';
+import { calculateDistance } from './geo';
+
+export type ManeuverType = 'depart' | 'turn' | 'new name' | 'roundabout' | 'arrive';
+
+export type ManeuverModifier =
+  | 'uturn'
+  | 'sharp right'
+  | 'right'
+  | 'slight right'
+  | 'straight'
+  | 'slight left'
+  | 'left'
+  | 'sharp left';
+
+/**
+ * One step of turn-by-turn guidance. A maneuver happens at `location` and is followed
+ * by `distance` meters of driving until the next one.
+ */
+export interface Maneuver {
+  type: ManeuverType;
+  modifier?: ManeuverModifier;
+  streetName?: string; // Street driven after the maneuver; for 'arrive', the street arrived on
+  distance: number; // meters until the next maneuver, 0 for 'arrive'
+  location: Point;
+  geometryIndex: number; // Index of `location` in getDetailedPathCoordinates(path)
+  bearingAfter: number; // Heading after the maneuver, degrees from north
+  exit?: number; // Roundabout exit to take, counting from 1
+  side?: 'left' | 'right'; // Side of the street the destination is on, for 'arrive'
+  instruction: string; // e.g. "Turn right onto Magsaysay Avenue"
+}
+
+export interface ManeuverOptions {
+  destination?: Point; // The requested end coordinate, used to tell the side of arrival
+  destinationName?: string; // e.g. "SM City Naga"
+  start?: Point; // Where the path really starts on its first edge, e.g. a snapped pickup
+  end?: Point; // Where the path really ends on its last edge, e.g. a snapped dropoff
+}
+
+// Bearing changes below this many degrees are "straight"
+const STRAIGHT_ANGLE = 20;
+
+// Destinations closer to the road than this are right on it, with no side to mention
+const ON_ROAD_DISTANCE = 5; // meters
+
+// Initial bearing from one point to another, in degrees from north
+function calculateBearing(p1: Point, p2: Point): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLon = toRad(p2.longitude - p1.longitude);
+  const lat1 = toRad(p1.latitude);
+  const lat2 = toRad(p2.latitude);
+
+  const x = Math.sin(dLon) * Math.cos(lat2);
+  const y = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(x, y) * 180 / Math.PI + 360) % 360;
+}
+
+// Signed change from one bearing to another in (-180, 180]; positive turns right
+function bearingChange(before: number, after: number): number {
+  let diff = after - before;
+  if (diff > 180) diff -= 360;
+  if (diff <= -180) diff += 360;
+  return diff;
+}
+
+function toModifier(change: number): ManeuverModifier {
+  const side = change > 0 ? 'right' : 'left';
+  const angle = Math.abs(change);
+  if (angle < STRAIGHT_ANGLE) return 'straight';
+  if (angle < 45) return `slight ${side}`;
+  if (angle < 135) return side;
+  if (angle < 170) return `sharp ${side}`;
+  return 'uturn';
+}
+
+function toCompass(bearing: number): string {
+  const directions = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+  return directions[Math.round(bearing / 45) % 8];
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as { [n: number]: string })[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function streetName(way: OSMWay | null): string | undefined {
+  return way?.tags.name ?? way?.tags.ref;
+}
+
+function isRoundabout(way: OSMWay | null): boolean {
+  return way?.tags.junction === 'roundabout' || way?.tags.junction === 'circular';
+}
+
+/**
+ * Writes the spoken/displayed instruction for a maneuver.
+ * @param maneuver The maneuver, without its instruction.
+ * @param destinationName Name of the destination, for the arrival.
+ * @returns e.g. "At the roundabout take the 2nd exit onto Panganiban Drive".
+ */
+export function formatManeuver(maneuver: Omit<Maneuver, 'instruction'>, destinationName?: string): string {
+  const onto = maneuver.streetName ? ` onto ${maneuver.streetName}` : '';
+
+  switch (maneuver.type) {
+    case 'depart':
+      return `Head ${toCompass(maneuver.bearingAfter)}${maneuver.streetName ? ` on ${maneuver.streetName}` : ''}`;
+    case 'roundabout':
+      return maneuver.exit
+        ? `At the roundabout take the ${ordinal(maneuver.exit)} exit${onto}`
+        : 'Enter the roundabout';
+    case 'new name':
+      return `Continue${onto}`;
+    case 'arrive': {
+      const place = destinationName ? `Arrive at ${destinationName}` : 'You have arrived at your destination';
+      return maneuver.side ? `${place} on the ${maneuver.side}` : place;
+    }
+    case 'turn':
+    default:
+      switch (maneuver.modifier) {
+        case 'uturn':
+          return `Make a U-turn${onto}`;
+        case 'slight left':
+        case 'slight right':
+          return `Bear ${maneuver.modifier.split(' ')[1]}${onto}`;
+        case 'straight':
+          return `Continue straight${onto}`;
+        default:
+          return `Turn ${maneuver.modifier}${onto}`;
+      }
+  }
+}
+
+/**
+ * Builds turn-by-turn maneuvers for a path by walking the OSM ways it follows. A maneuver
+ * is emitted where the path turns at a junction, where the street name changes and where it
+ * enters a roundabout; bends of a road with no other way to go are not maneuvers.
+ * @param pathFinder The PathFinder the path was found with.
+ * @param path The graph node IDs of the path.
+ * @param options The destination, to describe the arrival.
+ * @returns The maneuvers, from 'depart' to 'arrive'; empty for paths shorter than one edge.
+ */
+export function generateManeuvers(pathFinder: PathFinder, path: string[], options: ManeuverOptions = {}): Maneuver[] {
+  const graph = pathFinder.getCompactGraph();
+  if (path.length < 2 || path.some(nodeId => !graph.hasNode(nodeId))) return [];
+
+  // Per edge: its way, its geometry and where it starts in the detailed path coordinates
+  const edges = path.slice(0, -1).map((fromId, i) => ({
+    way: pathFinder.getEdgeWay(fromId, path[i + 1]),
+    coordinates: pathFinder.getDetailedPathCoordinates([fromId, path[i + 1]]),
+    geometryIndex: 0,
+    length: 0,
+  }));
+  // A route between snapped coordinates only drives part of its first and last edges
+  if (options.start) edges[0].coordinates[0] = options.start;
+  if (options.end) {
+    const lastCoordinates = edges[edges.length - 1].coordinates;
+    lastCoordinates[lastCoordinates.length - 1] = options.end;
+  }
+  let geometryIndex = 0;
+  edges.forEach(edge => {
+    edge.geometryIndex = geometryIndex;
+    geometryIndex += edge.coordinates.length - 1;
+    for (let i = 0; i < edge.coordinates.length - 1; i++) {
+      edge.length += calculateDistance(edge.coordinates[i], edge.coordinates[i + 1]);
+    }
+  });
+
+  const bearingIn = (edgeIndex: number) => {
+    const coords = edges[edgeIndex].coordinates;
+    return calculateBearing(coords[coords.length - 2], coords[coords.length - 1]);
+  };
+  const bearingOut = (edgeIndex: number) => {
+    const coords = edges[edgeIndex].coordinates;
+    return calculateBearing(coords[0], coords[1]);
+  };
+
+  // Other roads the vehicle could take at a path node, i.e. whether it is a junction
+  const otherExits = (nodeIndex: number) =>
+    graph.getNeighborIds(path[nodeIndex])
+      .filter(neighborId => neighborId !== path[nodeIndex + 1] && neighborId !== path[nodeIndex - 1]);
+
+  const maneuvers: Omit<Maneuver, 'instruction' | 'distance'>[] = [{
+    type: 'depart',
+    streetName: streetName(edges[0].way),
+    location: edges[0].coordinates[0],
+    geometryIndex: 0,
+    bearingAfter: bearingOut(0),
+  }];
+
+  for (let i = 1; i < path.length - 1; i++) {
+    const before = edges[i - 1];
+    const after = edges[i];
+    const location = graph.getNodePoint(path[i])!;
+
+    if (isRoundabout(after.way) && !isRoundabout(before.way)) {
+      // Count the exits passed until the path leaves the roundabout
+      let exit = 0;
+      let j = i + 1;
+      for (; j < path.length - 1 && isRoundabout(edges[j].way); j++) {
+        exit += otherExits(j).filter(neighborId => !isRoundabout(pathFinder.getEdgeWay(path[j], neighborId))).length;
+      }
+      const leftRoundabout = j < path.length - 1;
+
+      maneuvers.push({
+        type: 'roundabout',
+        streetName: leftRoundabout ? streetName(edges[j].way) : undefined,
+        exit: leftRoundabout ? exit + 1 : undefined,
+        location,
+        geometryIndex: after.geometryIndex,
+        bearingAfter: leftRoundabout ? bearingOut(j) : bearingOut(i),
+      });
+      i = j; // The exit node is part of the roundabout maneuver
+      continue;
+    }
+
+    const bearingAfter = bearingOut(i);
+    const modifier = toModifier(bearingChange(bearingIn(i - 1), bearingAfter));
+    const name = streetName(after.way);
+    const nameChanged = name !== undefined && name !== streetName(before.way);
+    const step = { modifier, streetName: name, location, geometryIndex: after.geometryIndex, bearingAfter };
+
+    if (modifier !== 'straight' && otherExits(i).length > 0) {
+      maneuvers.push({ type: 'turn', ...step });
+    } else if (nameChanged) {
+      maneuvers.push({ type: 'new name', ...step });
+    }
+  }
+
+  // Which side of the last street the destination is on
+  const lastEdge = edges[edges.length - 1];
+  const end = options.end ?? graph.getNodePoint(path[path.length - 1])!;
+  let side: 'left' | 'right' | undefined;
+  if (options.destination && calculateDistance(end, options.destination) > ON_ROAD_DISTANCE) {
+    const change = bearingChange(bearingIn(edges.length - 1), calculateBearing(end, options.destination));
+    if (Math.abs(change) > STRAIGHT_ANGLE && Math.abs(change) < 180 - STRAIGHT_ANGLE) {
+      side = change > 0 ? 'right' : 'left';
+    }
+  }
+  maneuvers.push({
+    type: 'arrive',
+    streetName: streetName(lastEdge.way),
+    side,
+    location: end,
+    geometryIndex,
+    bearingAfter: bearingIn(edges.length - 1),
+  });
+
+  // Distance of each step: the edges between one maneuver and the next
+  return maneuvers.map((maneuver, index) => {
+    const nextIndex = maneuvers[index + 1]?.geometryIndex ?? maneuver.geometryIndex;
+    const distance = edges
+      .filter(edge => edge.geometryIndex >= maneuver.geometryIndex && edge.geometryIndex < nextIndex)
+      .reduce((sum, edge) => sum + edge.length, 0);
+
+    const step = { ...maneuver, distance };
+    return { ...step, instruction: formatManeuver(step, options.destinationName) };
+  });
+}
@@ -0,0 +1,297 @@
+import type { PathFinder, Point } from './pathfinding';
+import type { CompactGraph } from './compactGraph';
+import { PriorityQueue } from './priorityQueue';
+import type { SpatialIndex } from './spatialIndex';
+import { RouteTask, runTask } from './routeWorker';
+import { calculateDistance } from './geo';
+
+/**
+ * A GPS fix from the device, in time order.
+ */
+export interface TracePoint extends Point {
+  timestamp?: number;
+  accuracy?: number | null; // meters, as reported by expo-location
+}
+
+export interface MatchOptions {
+  searchRadius?: number; // Minimum radius in meters to look for candidate roads (default 50)
+  maxCandidates?: number; // Candidate road positions kept per fix (default 6)
+  sigma?: number; // GPS noise in meters for fixes without accuracy (default 10)
+  beta?: number; // Meters of route/straight-line difference per unit of log probability (default 5)
+  maxRouteFactor?: number; // Longest route considered between fixes, relative to their distance (default 4)
+}
+
+export interface MatchResult {
+  path: string[]; // Graph node IDs traversed by the matched route
+  coordinates: Point[]; // Matched route line, starting and ending at the snapped fixes
+  matchedPoints: (Point | null)[]; // Snapped position of each input fix; null if it was skipped
+  distance: number; // Matched distance driven in meters
+  breaks: number; // Number of places where consecutive fixes could not be connected by road
+}
+
+// A possible position of a fix on the directed edge from -> to
+interface Candidate {
+  from: string;
+  to: string;
+  fraction: number; // 0 at `from`, 1 at `to`
+  point: Point;
+  offset: number; // meters from the fix
+  length: number; // edge length in meters
+}
+
+interface Step {
+  traceIndex: number;
+  candidates: Candidate[];
+  emissions: number[];
+}
+
+const MATCH_PROGRESS_STEP = 50; // Fixes looked up between progress reports
+
+/**
+ * Hidden Markov Model map matcher (Newson & Krumm) over a PathFinder's road graph.
+ * Hidden states are positions on road edges near each fix; emissions favour positions
+ * close to the fix and transitions favour road distances close to the straight-line
+ * distance between fixes. Viterbi picks the most likely sequence of positions.
+ */
+export class MapMatcher {
+  private graph: CompactGraph;
+  private spatialIndex: SpatialIndex;
+  private edgeLengths = new Map<string, number>();
+
+  constructor(pathFinder: PathFinder) {
+    this.graph = pathFinder.getCompactGraph();
+    this.spatialIndex = pathFinder.getSpatialIndex();
+  }
+
+  /**
+   * Matches a time-ordered GPS trace to the most likely road path.
+   * @param trace The GPS fixes in time order.
+   * @param options Matching parameters.
+   * @returns The matched path, or null if no fix is near a road.
+   */
+  match(trace: TracePoint[], options: MatchOptions = {}): MatchResult | null {
+    return runTask(this.matchTask(trace, options));
+  }
+
+  /**
+   * Task form of `match`, for matching a long trip on a RouteExecutor. Progress counts
+   * each fix twice: once when its candidate roads are looked up and once when it is matched.
+   * @param trace The GPS fixes in time order.
+   * @param options Matching parameters.
+   * @returns The task; its result is the matched path, or null if no fix is near a road.
+   */
+  *matchTask(trace: TracePoint[], options: MatchOptions = {}): RouteTask<MatchResult | null> {
+    const {
+      searchRadius = 50,
+      maxCandidates = 6,
+      sigma = 10,
+      beta = 5,
+      maxRouteFactor = 4,
+    } = options;
+
+    const steps = yield* this.buildStepsTask(trace, searchRadius, maxCandidates, sigma);
+    if (steps.length === 0) {
+      console.warn('Map matching failed: no trace point is near a road');
+      return null;
+    }
+
+    const matchedPoints: (Point | null)[] = trace.map(() => null);
+    const path: string[] = [];
+    const coordinates: Point[] = [];
+    let distance = 0;
+    let breaks = 0;
+
+    // Viterbi state for the current connected segment
+    let scores = steps[0].emissions.slice();
+    const backPointers: { prev: number; nodes: string[]; distance: number }[][] = [[]];
+    let segmentStart = 0;
+
+    const finishSegment = (endStep: number) => {
+      let best = scores.indexOf(Math.max(...scores));
+      const chosen: number[] = [];
+      for (let t = endStep; t >= segmentStart; t--) {
+        chosen.unshift(best);
+        if (t > segmentStart) best = backPointers[t - segmentStart][best].prev;
+      }
+
+      chosen.forEach((candidateIndex, offset) => {
+        const step = steps[segmentStart + offset];
+        const candidate = step.candidates[candidateIndex];
+        matchedPoints[step.traceIndex] = candidate.point;
+
+        if (offset > 0) {
+          const transition = backPointers[offset][candidateIndex];
+          transition.nodes.forEach(nodeId => {
+            if (path[path.length - 1] !== nodeId) path.push(nodeId);
+            coordinates.push(this.graph.getNodePoint(nodeId)!);
+          });
+          distance += transition.distance;
+        }
+        coordinates.push(candidate.point);
+      });
+    };
+
+    for (let t = 1; t < steps.length; t++) {
+      const prevStep = steps[t - 1];
+      const step = steps[t];
+      const straightLine = calculateDistance(trace[prevStep.traceIndex], trace[step.traceIndex]);
+      const maxRoute = Math.max(straightLine * maxRouteFactor, 200);
+
+      const nextScores = step.candidates.map(() => -Infinity);
+      const pointers: { prev: number; nodes: string[]; distance: number }[] = step.candidates.map(() => ({
+        prev: -1,
+        nodes: [],
+        distance: 0,
+      }));
+
+      for (let i = 0; i < prevStep.candidates.length; i++) {
+        if (scores[i] === -Infinity) continue;
+        const prev = prevStep.candidates[i];
+        const routes = this.shortestDistances(prev.to, maxRoute);
+        yield { stage: 'match', completed: trace.length + step.traceIndex, total: 2 * trace.length };
+
+        step.candidates.forEach((next, j) => {
+          const route = this.routeBetween(prev, next, routes);
+          if (!route || route.distance > maxRoute) return;
+
+          const transition = -Math.abs(route.distance - straightLine) / beta;
+          const score = scores[i] + transition + step.emissions[j];
+          if (score > nextScores[j]) {
+            nextScores[j] = score;
+            pointers[j] = { prev: i, nodes: route.nodes, distance: route.distance };
+          }
+        });
+      }
+
+      if (nextScores.every(score => score === -Infinity)) {
+        // The fixes cannot be connected by road (GPS jump, missing road): start a new segment
+        finishSegment(t - 1);
+        breaks++;
+        segmentStart = t;
+        scores = step.emissions.slice();
+        backPointers.length = 0;
+        backPointers.push([]);
+        continue;
+      }
+
+      scores = nextScores;
+      backPointers.push(pointers);
+    }
+
+    finishSegment(steps.length - 1);
+
+    return { path, coordinates, matchedPoints, distance, breaks };
+  }
+
+  /**
+   * Finds candidate road positions for each fix, skipping fixes that are within
+   * GPS noise of the previous one (they add no information but cost time).
+   */
+  private *buildStepsTask(trace: TracePoint[], searchRadius: number, maxCandidates: number, sigma: number): RouteTask<Step[]> {
+    const steps: Step[] = [];
+    let lastKept: TracePoint | null = null;
+
+    for (let traceIndex = 0; traceIndex < trace.length; traceIndex++) {
+      if (traceIndex > 0 && traceIndex % MATCH_PROGRESS_STEP === 0) {
+        yield { stage: 'match', completed: traceIndex, total: 2 * trace.length };
+      }
+
+      const fix = trace[traceIndex];
+      const fixSigma = Math.max(fix.accuracy ?? sigma, 1);
+      const isLast = traceIndex === trace.length - 1;
+      if (lastKept && !isLast && calculateDistance(lastKept, fix) < 2 * fixSigma) continue;
+
+      const candidates = this.findCandidates(fix, Math.max(searchRadius, 2 * fixSigma), maxCandidates);
+      if (candidates.length === 0) continue;
+
+      steps.push({
+        traceIndex,
+        candidates,
+        // Gaussian GPS error, as a log probability (constant terms dropped)
+        emissions: candidates.map(candidate => -0.5 * (candidate.offset / fixSigma) ** 2),
+      });
+      lastKept = fix;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Projects a fix onto the nearby directed edges.
+   */
+  private findCandidates(fix: Point, radius: number, maxCandidates: number): Candidate[] {
+    return this.spatialIndex.nearestEdges(fix, maxCandidates, radius).map(edge => ({
+      from: edge.fromId,
+      to: edge.toId,
+      fraction: edge.fraction,
+      point: edge.point,
+      offset: edge.distance,
+      length: this.edgeLength(edge.fromId, edge.toId),
+    }));
+  }
+
+  /**
+   * Road distance and traversed nodes from one candidate position to the next.
+   */
+  private routeBetween(
+    prev: Candidate,
+    next: Candidate,
+    routes: { distances: Map<string, number>; previous: Map<string, string> }
+  ): { distance: number; nodes: string[] } | null {
+    // Moving forward along the same edge
+    if (prev.from === next.from && prev.to === next.to && next.fraction >= prev.fraction) {
+      return { distance: (next.fraction - prev.fraction) * prev.length, nodes: [] };
+    }
+
+    const between = routes.distances.get(next.from);
+    if (between === undefined) return null;
+
+    const nodes: string[] = [];
+    let current: string | undefined = next.from;
+    while (current !== undefined) {
+      nodes.unshift(current);
+      current = routes.previous.get(current);
+    }
+
+    return {
+      distance: (1 - prev.fraction) * prev.length + between + next.fraction * next.length,
+      nodes,
+    };
+  }
+
+  /**
+   * Dijkstra on road distance from a node, stopping once distances exceed `maxDistance`.
+   */
+  private shortestDistances(startId: string, maxDistance: number) {
+    const distances = new Map<string, number>([[startId, 0]]);
+    const previous = new Map<string, string>();
+    const queue = new PriorityQueue<string>();
+    queue.enqueue([0, startId]);
+
+    while (!queue.isEmpty()) {
+      const [distance, nodeId] = queue.dequeue()!;
+      if (distance > (distances.get(nodeId) ?? Infinity) || distance > maxDistance) continue;
+
+      for (const neighborId of this.graph.getNeighborIds(nodeId)) {
+        const newDistance = distance + this.edgeLength(nodeId, neighborId);
+        if (newDistance < (distances.get(neighborId) ?? Infinity)) {
+          distances.set(neighborId, newDistance);
+          previous.set(neighborId, nodeId);
+          queue.enqueue([newDistance, neighborId]);
+        }
+      }
+    }
+
+    return { distances, previous };
+  }
+
+  private edgeLength(from: string, to: string): number {
+    const key = `${from}|${to}`;
+    let length = this.edgeLengths.get(key);
+    if (length === undefined) {
+      length = calculateDistance(this.graph.getNodePoint(from)!, this.graph.getNodePoint(to)!);
+      this.edgeLengths.set(key, length);
+    }
+    return length;
+  }
+}
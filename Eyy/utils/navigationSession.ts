@@ -0,0 +1,335 @@
+import type { PathFinder, Point, PathResult, RouteEndpoint } from './pathfinding';
+import type { Maneuver } from './maneuvers';
+import { RouteCancelledError, RouteExecutor, RouteJob, RouteTask, runTask } from './routeWorker';
+import { calculateDistance } from './geo';
+
+/**
+ * A GPS fix from `watchPositionAsync`.
+ */
+export interface NavigationFix extends Point {
+  heading?: number | null; // degrees from north, as reported by expo-location
+  speed?: number | null; // m/s
+  accuracy?: number | null; // meters
+  timestamp?: number;
+}
+
+// The route being driven; `coordinates` and `maneuvers` are those of `result`, see getRouteCoordinates
+export interface NavigationRoute {
+  result: PathResult;
+  coordinates: Point[];
+  maneuvers: Maneuver[];
+}
+
+export interface NavigationOptions {
+  waypoints?: RouteEndpoint[]; // Intermediate stops, kept when rerouting
+  destination?: Point; // Requested end coordinate, for the arrival maneuver of rerouted routes
+  destinationName?: string;
+  offRouteDistance?: number; // meters from the route line that count as off route (default 30)
+  headingTolerance?: number; // degrees between heading and route direction that count as wrong way (default 60)
+  minHeadingSpeed?: number; // m/s below which the GPS heading is ignored (default 2)
+  offRouteFixes?: number; // Consecutive off-route fixes before rerouting (default 3)
+  arrivalDistance?: number; // meters from the end that count as arrived (default 20)
+  executor?: RouteExecutor; // Runs reroutes in slices, e.g. `routeWorker.getExecutor()`; without one they run within `update`
+}
+
+export interface NavigationProgress {
+  snapped: Point; // Fix projected onto the route line
+  distanceFromRoute: number; // meters
+  remainingDistance: number; // meters along the route
+  remainingTime: number; // minutes
+  eta: Date;
+  nextManeuver: Maneuver | null; // null once arrived
+  distanceToNextManeuver: number; // meters
+  offRoute: boolean; // Off route for `offRouteFixes` fixes and no new route has been found (yet)
+  rerouted: boolean; // The route changed with this fix, see NavigationSession.getRoute
+  arrived: boolean;
+}
+
+// Initial bearing from one point to another, in degrees from north
+function calculateBearing(p1: Point, p2: Point): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLon = toRad(p2.longitude - p1.longitude);
+  const lat1 = toRad(p1.latitude);
+  const lat2 = toRad(p2.latitude);
+
+  const x = Math.sin(dLon) * Math.cos(lat2);
+  const y = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(x, y) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Projects a point onto the segment a-b in a local flat approximation.
+ * @returns The fraction along the segment (0 at a, 1 at b) of the closest point.
+ */
+function projectOntoSegment(point: Point, a: Point, b: Point): number {
+  const scale = Math.cos(point.latitude * Math.PI / 180);
+  const dx = (b.longitude - a.longitude) * scale;
+  const dy = b.latitude - a.latitude;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+
+  const px = (point.longitude - a.longitude) * scale;
+  const py = point.latitude - a.latitude;
+  return Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSquared));
+}
+
+/**
+ * Turn-by-turn navigation along a route. Feed it every GPS fix: it tracks progress along
+ * the route line, advances through the maneuvers and, when the device has been away from
+ * the route or driving against it for several fixes, reroutes from the current position
+ * through the PathFinder. With an executor the reroute runs in the background and the new
+ * route is taken on with the first fix after it is found.
+ */
+export class NavigationSession {
+  private route!: NavigationRoute;
+  private cumulative: number[] = []; // meters along the route line at each coordinate
+  private routePath: string[] = []; // The route's nodes, see PathFinder.getRoutePath
+  private pathNodeIndex: number[] = []; // Index in `coordinates` of each node of `routePath`
+  private segmentIndex = 0; // Route line segment of the last on-route fix
+  private offRouteCount = 0;
+  private rerouteJob: RouteJob<NavigationRoute | null> | null = null; // Reroute running on the executor
+  private reroutedRoute: NavigationRoute | null = null; // Found by the reroute job, not yet driven
+  private readonly options: Required<Omit<NavigationOptions, 'destination' | 'destinationName' | 'executor'>> &
+    Pick<NavigationOptions, 'destination' | 'destinationName' | 'executor'>;
+
+  constructor(private pathFinder: PathFinder, route: NavigationRoute, options: NavigationOptions = {}) {
+    this.options = {
+      waypoints: options.waypoints ?? [],
+      destination: options.destination,
+      destinationName: options.destinationName,
+      offRouteDistance: options.offRouteDistance ?? 30,
+      headingTolerance: options.headingTolerance ?? 60,
+      minHeadingSpeed: options.minHeadingSpeed ?? 2,
+      offRouteFixes: options.offRouteFixes ?? 3,
+      arrivalDistance: options.arrivalDistance ?? 20,
+      executor: options.executor,
+    };
+    this.setRoute(route);
+  }
+
+  /**
+   * Gets the route being driven, which changes after a reroute.
+   * @returns The current route.
+   */
+  getRoute(): NavigationRoute {
+    return this.route;
+  }
+
+  /**
+   * Cancels a reroute that is still running, e.g. when the session is replaced.
+   */
+  stop(): void {
+    this.rerouteJob?.cancel();
+    this.rerouteJob = null;
+    this.reroutedRoute = null;
+  }
+
+  private setRoute(route: NavigationRoute): void {
+    this.route = route;
+    this.segmentIndex = 0;
+    this.offRouteCount = 0;
+
+    this.cumulative = [0];
+    for (let i = 1; i < route.coordinates.length; i++) {
+      this.cumulative.push(this.cumulative[i - 1] + calculateDistance(route.coordinates[i - 1], route.coordinates[i]));
+    }
+
+    // Same per-edge geometry as getRouteCoordinates, so indices line up
+    this.routePath = this.pathFinder.getRoutePath(route.result);
+    this.pathNodeIndex = [0];
+    for (let i = 0; i < this.routePath.length - 1; i++) {
+      const edge = this.pathFinder.getDetailedPathCoordinates([this.routePath[i], this.routePath[i + 1]]);
+      this.pathNodeIndex.push(this.pathNodeIndex[i] + Math.max(edge.length - 1, 1));
+    }
+  }
+
+  /**
+   * Updates progress with a new GPS fix.
+   * @param fix The device position.
+   * @returns Where the device is along the route and what comes next.
+   */
+  update(fix: NavigationFix): NavigationProgress {
+    // A route found in the background since the last fix is driven from here on
+    if (this.reroutedRoute) {
+      this.setRoute(this.reroutedRoute);
+      this.reroutedRoute = null;
+      return { ...this.update(fix), rerouted: true };
+    }
+
+    const { coordinates } = this.route;
+    const totalDistance = this.cumulative[this.cumulative.length - 1];
+
+    // Closest point on the route line, searching from a little behind the last position
+    // so a route that passes the same street twice does not jump ahead
+    let best = { segment: 0, fraction: 0, distance: Infinity, point: coordinates[0] };
+    for (let i = Math.max(0, this.segmentIndex - 2); i < coordinates.length - 1; i++) {
+      const fraction = projectOntoSegment(fix, coordinates[i], coordinates[i + 1]);
+      const point = {
+        latitude: coordinates[i].latitude + (coordinates[i + 1].latitude - coordinates[i].latitude) * fraction,
+        longitude: coordinates[i].longitude + (coordinates[i + 1].longitude - coordinates[i].longitude) * fraction,
+      };
+      const distance = calculateDistance(fix, point);
+      if (distance < best.distance) {
+        best = { segment: i, fraction, distance, point };
+      }
+    }
+    if (coordinates.length === 1) {
+      best.distance = calculateDistance(fix, coordinates[0]);
+    }
+
+    const offRoute = this.isOffRouteFix(fix, best.distance, best.segment);
+    this.offRouteCount = offRoute ? this.offRouteCount + 1 : 0;
+
+    // While a reroute runs in the background, every off-route fix waits for it
+    if (this.offRouteCount >= this.options.offRouteFixes || (offRoute && this.rerouteJob)) {
+      const { executor } = this.options;
+      if (executor) {
+        this.startReroute(fix, executor);
+        this.offRouteCount = 0;
+        return { ...this.buildProgress(best, totalDistance), offRoute: true };
+      }
+
+      const route = runTask(this.rerouteTask(fix));
+      if (route) {
+        this.setRoute(route);
+        const progress = this.update(fix);
+        this.offRouteCount = 0; // The new route starts here, give it a few fixes
+        return { ...progress, rerouted: true };
+      }
+      // No way back found; keep guiding along the old route
+      this.offRouteCount = 0;
+      return { ...this.buildProgress(best, totalDistance), offRoute: true };
+    }
+
+    if (!offRoute) {
+      this.segmentIndex = best.segment;
+    }
+    return this.buildProgress(best, totalDistance);
+  }
+
+  private buildProgress(
+    position: { segment: number; fraction: number; distance: number; point: Point },
+    totalDistance: number
+  ): NavigationProgress {
+    const { coordinates, maneuvers, result } = this.route;
+    const segmentLength = coordinates.length > 1
+      ? this.cumulative[position.segment + 1] - this.cumulative[position.segment]
+      : 0;
+    const traveled = this.cumulative[position.segment] + segmentLength * position.fraction;
+    const remainingDistance = Math.max(0, totalDistance - traveled);
+    const arrived = remainingDistance <= this.options.arrivalDistance;
+
+    // Time left in proportion to distance left, so traffic in the route's estimate carries over
+    const remainingTime = totalDistance > 0 ? result.estimatedTime * remainingDistance / totalDistance : 0;
+
+    const nextManeuver = arrived
+      ? null
+      : maneuvers.find(maneuver => maneuver.geometryIndex > position.segment) ?? null;
+    const distanceToNextManeuver = nextManeuver
+      ? Math.max(0, this.cumulative[Math.min(nextManeuver.geometryIndex, this.cumulative.length - 1)] - traveled)
+      : 0;
+
+    return {
+      snapped: position.point,
+      distanceFromRoute: position.distance,
+      remainingDistance,
+      remainingTime,
+      eta: new Date(Date.now() + remainingTime * 60 * 1000),
+      nextManeuver,
+      distanceToNextManeuver,
+      offRoute: false,
+      rerouted: false,
+      arrived,
+    };
+  }
+
+  /**
+   * A fix is off route when it is too far from the route line, allowing for its accuracy,
+   * or when the device is clearly moving against the direction of the route.
+   */
+  private isOffRouteFix(fix: NavigationFix, distanceFromRoute: number, segment: number): boolean {
+    const threshold = Math.max(this.options.offRouteDistance, fix.accuracy ?? 0);
+    if (distanceFromRoute > threshold) return true;
+
+    const { coordinates } = this.route;
+    if (
+      fix.heading == null || fix.heading < 0 ||
+      fix.speed == null || fix.speed < this.options.minHeadingSpeed ||
+      coordinates.length < 2
+    ) {
+      return false;
+    }
+
+    const routeBearing = calculateBearing(coordinates[segment], coordinates[segment + 1]);
+    let difference = Math.abs(fix.heading - routeBearing) % 360;
+    if (difference > 180) difference = 360 - difference;
+    return difference > this.options.headingTolerance;
+  }
+
+  /**
+   * Looks for a new route on the executor unless a reroute is already running; the route
+   * is taken on by the next `update`.
+   */
+  private startReroute(fix: NavigationFix, executor: RouteExecutor): void {
+    if (this.rerouteJob) return;
+
+    const job = executor.run(this.rerouteTask(fix));
+    this.rerouteJob = job;
+    job.promise
+      .then(route => {
+        if (this.rerouteJob === job) this.reroutedRoute = route;
+      })
+      .catch(error => {
+        if (!(error instanceof RouteCancelledError)) {
+          console.error('Error rerouting:', error);
+        }
+      })
+      .finally(() => {
+        if (this.rerouteJob === job) this.rerouteJob = null;
+      });
+  }
+
+  /**
+   * Task that routes from the fix to the destination through the stops not yet reached.
+   * @returns The task; its result is the new route, or null if none was found.
+   */
+  private *rerouteTask(fix: NavigationFix): RouteTask<NavigationRoute | null> {
+    const start = this.pathFinder.snap(fix);
+    if (!start) {
+      console.warn('Could not snap the current position to the road network for rerouting');
+      return null;
+    }
+
+    const path = this.routePath;
+    const { endPoint } = this.route.result;
+    const currentPathIndex = this.pathNodeIndex.findIndex(index => index > this.segmentIndex);
+    // A stop mid-segment is still ahead if the rest of the path passes a node of its road
+    const remainingStops = this.options.waypoints.filter(waypoint => {
+      const nodeIds = typeof waypoint === 'string' ? [waypoint]
+        : waypoint.position ? [waypoint.position.fromId, waypoint.position.toId]
+        : [waypoint.nodeId];
+      return nodeIds.some(nodeId => path.indexOf(nodeId, Math.max(currentPathIndex, 0)) !== -1);
+    });
+    // The end point lies on its road, so snapping it again finds the same position
+    const end = (endPoint && this.pathFinder.snap(endPoint, 1)) || path[path.length - 1];
+
+    const result = remainingStops.length > 0
+      ? yield* this.pathFinder.waypointPathTask([start, ...remainingStops, end])
+      : yield* this.pathFinder.shortestPathTask(start, end);
+    if (!result) {
+      console.warn('No route from the current position to the destination');
+      return null;
+    }
+
+    const destination = this.options.destination ?? this.route.coordinates[this.route.coordinates.length - 1];
+    console.log('Off route, rerouted from', start.nodeId);
+    return {
+      result,
+      coordinates: this.pathFinder.getRouteCoordinates(result),
+      maneuvers: this.pathFinder.getRouteManeuvers(result, {
+        destination,
+        destinationName: this.options.destinationName,
+      }),
+    };
+  }
+}
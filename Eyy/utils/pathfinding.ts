@@ -2,21 +2,29 @@
 // import fetch from 'node-fetch';
 // (global as any).fetch = fetch;
 
+import { RoadNetworkBounds, getRoadNetworkExtract, isWithinBounds } from './roadNetworkExtract';
+import { getCachedRoadTile, putCachedRoadTile, getCachedRoadGraph, putCachedRoadGraph } from './roadNetworkCache';
+import { getTileBounds, getTilesAroundPoint, getTilesAlongSegment, isTileWithinBounds } from './roadTiles';
+import { PriorityQueue } from './priorityQueue';
+import { VehicleProfile, TRICYCLE_PROFILE, isWayAllowed, getWayPenalty, getProfileSpeed, getProfileKey } from './vehicleProfiles';
+import { TrafficProfile, DEFAULT_TRAFFIC_PROFILE, getTrafficMultiplier } from './trafficProfiles';
+import { RoadClosure, DEFAULT_AVOID_PENALTY, isClosureActive, segmentTouchesPolygon } from './roadClosures';
+import { Maneuver, ManeuverOptions, generateManeuvers } from './maneuvers';
+import { RouteExecutor, RouteTask, runTask } from './routeWorker';
+import { CompactGraph, CompactGraphBuilder } from './compactGraph';
+import { SpatialIndex } from './spatialIndex';
+import { ZoneIndex, ZoneTags, DEFAULT_SERVICE_ZONES } from './serviceZones';
+
 interface Point {
   latitude: number;
   longitude: number;
 }
 
-interface GraphNode {
-  id: string;
-  point: Point;
-  neighbors: { [key: string]: number }; // neighbor id -> distance
-}
-
 interface OSMNode {
   id: number;
   lat: number;
   lon: number;
+  tags?: { [key: string]: string };
 }
 
 interface OSMWay {
@@ -32,29 +40,201 @@ interface OSMWay {
   };
 }
 
+interface OSMRelation {
+  id: number;
+  members: { type: 'node' | 'way' | 'relation'; ref: number; role: string }[];
+  tags: { [key: string]: string | undefined };
+}
+
+// A turn restriction with a single via node; `only` restrictions forbid every other exit
+interface TurnRestriction {
+  id: number;
+  kind: 'no' | 'only';
+  fromWay: number;
+  viaNode: string; // graph node ID
+  toWay: number;
+}
+
 interface PathResult {
-  path: string[];
-  distance: number;
-  estimatedTime: number;
-  fare: number;
+  path: string[]; // Graph node IDs
+  distance: number; // kilometers
+  estimatedTime: number; // minutes
+  fare: number; // pesos, see calculateFare
+  // Set when the route starts or ends mid-segment: `path` then runs between the edge nodes
+  // next to these points, and distance, time and fare include the partial edges
+  startPoint?: Point;
+  endPoint?: Point;
+  startPosition?: RoadPosition;
+  endPosition?: RoadPosition;
+}
+
+// A route between two coordinates, ready to draw and to book
+interface RouteResult extends PathResult {
+  start: SnapResult;
+  end: SnapResult;
+  coordinates: Point[]; // Road geometry of the path
+  maneuvers: Maneuver[];
+  instructions: string[]; // The maneuvers' instructions
+}
+
+// Route through several waypoints; `legs[i]` runs from waypoint i to waypoint i + 1
+interface MultiLegPathResult extends PathResult {
+  legs: PathResult[];
+}
+
+type SearchAlgorithm = 'astar' | 'dijkstra';
+
+// What a cost function knows about the edge being traversed
+interface EdgeInfo {
+  fromId: string;
+  toId: string;
+  travelTime: number; // seconds, for the current vehicle profile
+  distance: number; // meters
+  tags: OSMWay['tags'] | null; // Tags of the way the edge belongs to, null for manually added edges
+}
+
+// Search cost of an edge in place of its travel time. With A* the cost must never be
+// lower than `travelTime`, otherwise use the 'dijkstra' algorithm.
+type EdgeCostFunction = (edge: EdgeInfo) => number;
+
+interface PathOptions {
+  algorithm?: SearchAlgorithm; // Defaults to 'astar'
+  costFunction?: EdgeCostFunction; // Defaults to travel time
+  departureTime?: Date; // Used with the traffic profile; defaults to now
+}
+
+// A position on a directed graph edge
+interface RoadPosition {
+  fromId: string;
+  toId: string;
+  fraction: number; // 0 at `fromId`, 1 at `toId`
+  oneWay: boolean; // Whether the road can only be driven from `fromId` to `toId`
+}
+
+// A coordinate matched to the road graph
+interface SnapResult {
+  nodeId: string; // The nearest node of the road, for node-to-node searches
+  point: Point; // Where the vehicle stops: the coordinate projected onto the road
+  distance: number; // meters from the requested coordinate
+  position?: RoadPosition; // The road the coordinate was projected onto
+}
+
+// Where a route starts or ends: a graph node ID, or a snapped coordinate to start or end
+// mid-segment
+type RouteEndpoint = string | SnapResult;
+
+// Fare matrix for tricycles in Naga City
+const BASE_FARE = 15; // pesos, covers the first BASE_KM
+const RATE_PER_KM = 11; // pesos per km after BASE_KM
+const BASE_KM = 1;
+// Charged when the dropoff is outside every franchise zone of the pickup, where the
+// tricycle may not pick up a passenger for the way back
+const OUT_OF_ZONE_SURCHARGE = 10; // pesos
+
+// The zones a trip starts and ends in, see utils/serviceZones
+interface TripZones {
+  pickup: ZoneTags;
+  dropoff: ZoneTags;
+}
+
+/**
+ * Calculates the fare for a trip. All screens price rides with this so the fare
+ * shown on the map is the one that is booked.
+ * @param distance The total distance in kilometers.
+ * @param zones The zones of the pickup and dropoff; without them no zone surcharge applies.
+ * @returns The calculated fare in pesos.
+ */
+function calculateFare(distance: number, zones?: TripZones): number {
+  const distanceFare = distance <= BASE_KM ? BASE_FARE : BASE_FARE + (distance - BASE_KM) * RATE_PER_KM;
+  const leavesFranchise =
+    !!zones &&
+    zones.pickup.franchises.length > 0 &&
+    !zones.pickup.franchises.some(franchise => zones.dropoff.franchises.includes(franchise));
+  return leavesFranchise ? distanceFare + OUT_OF_ZONE_SURCHARGE : distanceFare;
+}
+
+// A path simplified for drawing at map regions up to `maxLatitudeDelta` degrees tall
+interface PathLevelOfDetail {
+  maxLatitudeDelta: number;
+  tolerance: number; // meters
+  coordinates: Point[];
+}
+
+// Simplification tolerance per zoom: about one screen pixel at the largest latitudeDelta
+// of each level on a phone that shows ~1000 px of map height
+const LEVELS_OF_DETAIL = [
+  { maxLatitudeDelta: 0.005, tolerance: 0.5 },
+  { maxLatitudeDelta: 0.02, tolerance: 2 },
+  { maxLatitudeDelta: 0.08, tolerance: 8 },
+  { maxLatitudeDelta: 0.3, tolerance: 30 },
+  { maxLatitudeDelta: Infinity, tolerance: 100 },
+];
+
+/**
+ * Picks the level of detail to draw for the visible map region.
+ * @param levels The levels from `getPathLevelsOfDetail`.
+ * @param latitudeDelta The height of the visible region in degrees, e.g. `region.latitudeDelta`.
+ * @returns The coordinates to draw.
+ */
+function selectLevelOfDetail(levels: PathLevelOfDetail[], latitudeDelta: number): Point[] {
+  const level = levels.find(candidate => latitudeDelta <= candidate.maxLatitudeDelta) ?? levels[levels.length - 1];
+  return level?.coordinates ?? [];
+}
+
+// A road network tile merged into the graph
+interface LoadedTile {
+  key: string;
+  elementKeys: string[]; // 'n<id>', 'w<id>' and 'r<id>' of the OSM elements it contains
+  size: number; // Number of OSM elements
+  lastUsed: number;
+}
+
+// Pseudo tiles for the offline extract and for networks loaded whole; never evicted
+const EXTRACT_TILE_KEY = 'extract';
+const NETWORK_TILE_KEY = 'network';
+const PINNED_TILE_KEYS = [EXTRACT_TILE_KEY, NETWORK_TILE_KEY];
+
+// OSM elements kept loaded before least recently used tiles are evicted (~a dozen city tiles)
+const MAX_LOADED_ELEMENTS = 400000;
+
+// Connected parts of the graph smaller than this are dropped, e.g. a parking lot whose
+// entrance is outside the loaded tiles
+const MIN_COMPONENT_NODES = 20;
+
+// Snapped coordinates this close to an intersection are at it, with no partial edge to drive
+const SNAP_NODE_DISTANCE = 1; // meters
+
+// Search states settled, OSM elements parsed, road segments added or route edges measured
+// between progress updates of a task
+const SEARCH_PROGRESS_STEP = 256;
+const PARSE_PROGRESS_STEP = 2000;
+const GRAPH_PROGRESS_STEP = 1000;
+const ROUTE_PROGRESS_STEP = 200;
+
+interface AlternativeOptions extends PathOptions {
+  maxAlternatives?: number; // Maximum number of routes returned, including the fastest (default 3)
+  penaltyFactor?: number; // Weight multiplier applied to edges of routes already found (default 1.4)
+  maxOverlap?: number; // Maximum share of a route's length shared with another route (default 0.7)
+  maxStretch?: number; // Maximum travel time relative to the fastest route (default 1.5)
 }
 
 class PathFinder {
-  private nodes: { [key: string]: GraphNode } = {};
+  private graph: CompactGraph = new CompactGraphBuilder().build(); // Road graph; edge weights are free-flow seconds
   private osmNodes: { [key: string]: OSMNode } = {};
   private osmWays: { [key: string]: OSMWay } = {};
+  private osmRelations: { [key: string]: OSMRelation } = {};
+  private places: { [key: string]: OSMNode } = {}; // Named POIs, addresses and barangay place nodes
+  private turnRestrictions: { [viaNodeId: string]: TurnRestriction[] } = {};
   private isInitialized: boolean = false;
-  private osmCache: { [key: string]: { data: any; timestamp: number } } = {};
+  private extractVersion: number | null = null; // Version of the offline extract currently loaded, if any
+  private extractBounds: RoadNetworkBounds | null = null;
+  private tiles: { [tileKey: string]: LoadedTile } = {};
+  private elementRefs = new Map<string, number>(); // OSM element key -> number of loaded tiles containing it
+  private spatialIndex: SpatialIndex | null = null; // Index of `graph`, built on demand
   private readonly CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000; // 1 second
 
-  // Constants for fare calculation
-  private readonly BASE_FARE = 15;
-  private readonly RATE_PER_KM = 11;
-  private readonly BASE_KM = 1;
-  private readonly AVERAGE_SPEED_KMH = 40; // Used for general time estimation if specific speed limits aren't available
-
   // Road type categories for more robust handling
   private readonly ROAD_TYPES = {
     MOTORWAY: ['motorway', 'motorway_link'],
@@ -66,25 +246,44 @@ class PathFinder {
     SERVICE: ['service']
   };
 
-  private readonly DEFAULT_SPEEDS: { [key: string]: number } = {
-    motorway: 100,
-    trunk: 80,
-    primary: 60,
-    secondary: 50,
-    tertiary: 40,
-    residential: 30,
-    service: 20,
-    unclassified: 30, // Default for unclassified roads
-    living_street: 15 // Lower speed for living streets
-  };
+  // Tags that make a named node a point of interest for reverse geocoding
+  private readonly POI_KEYS = ['amenity', 'shop', 'tourism', 'leisure', 'office', 'healthcare', 'public_transport'];
+
+  // OSM place types used for barangays in the Philippines
+  private readonly BARANGAY_PLACE_TYPES = ['village', 'suburb', 'quarter', 'neighbourhood', 'hamlet'];
+
+  // Vehicle the graph is built for: allowed roads, speed table and road penalties
+  private profile: VehicleProfile;
+
+  // Fastest speed of any edge in the graph, keeps the A* heuristic admissible
+  private maxSpeedKmh: number;
+
+  // Time-of-day speed multipliers applied on top of the free-flow edge weights; null disables traffic
+  private trafficProfile: TrafficProfile | null = DEFAULT_TRAFFIC_PROFILE;
+
+  // Zones routes are priced with, e.g. the franchise zone surcharge
+  private serviceZones: ZoneIndex = DEFAULT_SERVICE_ZONES;
+
+  // Road closures and avoid areas, applied at search time so the graph is never rebuilt for them
+  private closures: { [closureId: string]: RoadClosure } = {};
+  private closedEdges: { [edgeKey: string]: string[] } = {}; // 'from|to' graph node IDs -> closure IDs
+  private closureListeners: ((closures: RoadClosure[]) => void)[] = [];
+
+  // Runs graph building in slices so loading a network does not freeze the UI; null builds in one go
+  private executor: RouteExecutor | null = null;
+
+  constructor(profile: VehicleProfile = TRICYCLE_PROFILE) {
+    this.profile = profile;
+    this.maxSpeedKmh = Math.max(...Object.values(profile.speeds));
 
-  constructor() {
     // Bind methods if they are passed as callbacks where `this` context is lost
     this.calculateDistance = this.calculateDistance.bind(this);
     this.fetchRoadNetwork = this.fetchRoadNetwork.bind(this);
-    this.processOSMData = this.processOSMData.bind(this);
+    this.loadOfflineRoadNetwork = this.loadOfflineRoadNetwork.bind(this);
     this.buildGraphFromOSM = this.buildGraphFromOSM.bind(this);
     this.findShortestPath = this.findShortestPath.bind(this);
+    this.findAlternativePaths = this.findAlternativePaths.bind(this);
+    this.findPathThroughWaypoints = this.findPathThroughWaypoints.bind(this);
   }
 
   // Calculate distance between two points using Haversine formula
@@ -104,39 +303,157 @@ class PathFinder {
   }
 
   /**
-   * Fetches road network data from Overpass API, with retry logic and caching.
+   * Loads the road network from the offline extract shipped with the app (or a newer
+   * downloaded one) and merges it into the graph. The extract covers the whole service
+   * area, so tiles inside its bounds are never fetched, and it is never evicted.
+   * @param center Optional point that must lie inside the extract's bounds.
+   * @returns True if the extract is loaded, false otherwise.
+   */
+  async loadOfflineRoadNetwork(center?: Point): Promise<boolean> {
+    const extract = await getRoadNetworkExtract();
+    if (!extract || (center && !isWithinBounds(center, extract.bounds))) {
+      return false;
+    }
+
+    // Already merged from this extract version, nothing to do
+    if (this.tiles[EXTRACT_TILE_KEY] && this.extractVersion === extract.version) {
+      return true;
+    }
+
+    console.log(`Loading offline road network extract version ${extract.version}`);
+    if (this.tiles[EXTRACT_TILE_KEY]) {
+      this.unloadTile(this.tiles[EXTRACT_TILE_KEY]);
+      await this.buildGraphFromOSM();
+    }
+    await this.mergeTile(EXTRACT_TILE_KEY, `${EXTRACT_TILE_KEY}-${extract.version}`, extract);
+    this.extractVersion = extract.version;
+    this.extractBounds = extract.bounds;
+    return true;
+  }
+
+  /**
+   * Makes sure the road network around a point is loaded. The network is loaded in fixed
+   * tiles (see utils/roadTiles) from the offline extract, the on-device cache or the
+   * Overpass API, and every tile is merged into the same graph; tiles already loaded are
+   * kept, so earlier areas stay routable.
    * @param center The center point for the query.
-   * @param radius The radius in meters around the center to query.
+   * @param radius The radius in meters around the center to load.
    */
   async fetchRoadNetwork(center: Point, radius: number = 1000): Promise<void> {
-    const cacheKey = `${center.latitude},${center.longitude},${radius}`;
-    const cachedData = this.osmCache[cacheKey];
+    try {
+      await this.loadOfflineRoadNetwork(center);
+    } catch (error) {
+      console.warn('Failed to load offline road network, falling back to Overpass:', error);
+    }
 
-    if (cachedData && Date.now() - cachedData.timestamp < this.CACHE_DURATION) {
-      console.log('Using cached OSM data');
-      await this.processOSMData(cachedData.data);
-      return;
+    await this.loadTiles(getTilesAroundPoint(center, radius));
+  }
+
+  /**
+   * Makes sure the road network along the straight line between two points is loaded,
+   * e.g. for a pickup and dropoff in different towns.
+   * @param start The first point, e.g. the pickup.
+   * @param end The second point, e.g. the dropoff.
+   * @param margin Meters on either side of the line to load.
+   */
+  async fetchRoadNetworkBetween(start: Point, end: Point, margin: number = 2000): Promise<void> {
+    for (const point of [start, end]) {
+      try {
+        await this.loadOfflineRoadNetwork(point);
+      } catch (error) {
+        console.warn('Failed to load offline road network, falling back to Overpass:', error);
+      }
+    }
+
+    await this.loadTiles(getTilesAlongSegment(start, end, margin));
+  }
+
+  /**
+   * Loads the tiles that are not loaded yet and marks the others as recently used, then
+   * evicts least recently used tiles if the graph is over its size budget.
+   * @param tileKeys The tiles needed now; they are never evicted by this call.
+   */
+  private async loadTiles(tileKeys: string[]): Promise<void> {
+    const now = Date.now();
+    const missing = tileKeys.filter(tileKey => {
+      if (this.tiles[tileKey]) {
+        this.tiles[tileKey].lastUsed = now;
+        return false;
+      }
+      return !(this.extractBounds && isTileWithinBounds(tileKey, this.extractBounds));
+    });
+
+    for (const tileKey of missing) {
+      const data = await this.fetchTile(tileKey);
+      await this.mergeTile(tileKey, tileKey, data);
+    }
+
+    await this.evictTiles(MAX_LOADED_ELEMENTS, tileKeys);
+  }
+
+  /**
+   * Merges the OSM data of a tile into the loaded network. The tile's road graph comes
+   * from the cache when it was built before for the vehicle profile, and is cached after
+   * it is built otherwise.
+   * @param tileKey The tile key.
+   * @param graphKey The key the tile's graph is cached under; it must change with the data.
+   * @param data The raw OSM data of the tile.
+   */
+  private async mergeTile(tileKey: string, graphKey: string, data: { elements: any[] }): Promise<void> {
+    const profile = this.profile;
+    const profileKey = getProfileKey(profile);
+    let cachedGraph: CompactGraph | null = null;
+    try {
+      cachedGraph = await getCachedRoadGraph(graphKey, profileKey, this.CACHE_DURATION);
+    } catch (error) {
+      console.warn('Failed to read road graph cache:', error);
+    }
+
+    const tileGraph = await this.runGraphTask(this.mergeTileTask(tileKey, data, cachedGraph));
+    // A graph built after the profile changed is for the new profile
+    if (!cachedGraph && this.profile === profile) {
+      putCachedRoadGraph(graphKey, profileKey, tileGraph)
+        .catch(error => console.warn('Failed to cache road graph:', error));
+    }
+  }
+
+  /**
+   * Gets the OSM data of a tile from the cache, or from the Overpass API with retry logic.
+   * @param tileKey The tile key.
+   * @returns The raw OSM data of the tile.
+   */
+  private async fetchTile(tileKey: string): Promise<{ elements: any[] }> {
+    try {
+      const cachedData = await getCachedRoadTile(tileKey, this.CACHE_DURATION);
+      if (Array.isArray(cachedData?.elements)) {
+        console.log(`Using cached OSM data for tile ${tileKey}`);
+        return cachedData;
+      }
+    } catch (error) {
+      console.warn('Failed to read road network cache:', error);
     }
 
+    const { south, west, north, east } = getTileBounds(tileKey);
     let retryCount = 0;
-    while (retryCount < this.MAX_RETRIES) {
+    while (true) {
       try {
-        console.log(`Fetching road network data around ${center.latitude},${center.longitude} with radius ${radius}m (attempt ${retryCount + 1})`);
-        
-        // Clear existing data before fetching new data
-        this.nodes = {};
-        this.osmNodes = {};
-        this.osmWays = {};
-        this.isInitialized = false;
+        console.log(`Fetching road network tile ${tileKey} (attempt ${retryCount + 1})`);
 
-        // Optimized Overpass API query for relevant highway types
+        // Optimized Overpass API query for relevant highway types, plus the POIs,
+        // addresses and barangay places used for reverse geocoding. Roads crossing the
+        // tile border come with all their nodes, which stitches them to the next tile.
         const highwayTypes = Object.values(this.ROAD_TYPES).flat().join('|');
+        const bbox = `${south},${west},${north},${east}`;
         const query = `
           [out:json][timeout:25];
+          way["highway"~"^(${highwayTypes})$"](${bbox})->.roads;
           (
-            way["highway"~"^(${highwayTypes})$"](around:${radius},${center.latitude},${center.longitude});
-            node(w);
-            >;
+            .roads;
+            node(w.roads);
+            rel(bw.roads)["type"="restriction"];
+            node["name"][~"^(${this.POI_KEYS.join('|')})$"~"."](${bbox});
+            node["addr:street"](${bbox});
+            node["place"~"^(${this.BARANGAY_PLACE_TYPES.join('|')})$"](${bbox});
           );
           out body;
         `;
@@ -161,22 +478,17 @@ class PathFinder {
         }
 
         const data = await response.json();
-        console.log('OSM data fetched successfully', { elements: data.elements.length });
-
-        // Cache the successful response
-        this.osmCache[cacheKey] = {
-          data,
-          timestamp: Date.now(),
-        };
+        console.log(`OSM data for tile ${tileKey} fetched successfully`, { elements: data.elements.length });
 
-        // Process the data
-        await this.processOSMData(data);
-        return;
+        // A cache failure should not fail the fetch
+        putCachedRoadTile(tileKey, data)
+          .catch(error => console.warn('Failed to cache road network tile:', error));
+        return data;
 
       } catch (error) {
-        console.error(`Error fetching road network (attempt ${retryCount + 1}):`, error);
+        console.error(`Error fetching road network tile ${tileKey} (attempt ${retryCount + 1}):`, error);
         retryCount++;
-        
+
         if (retryCount < this.MAX_RETRIES) {
           await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY * retryCount));
         } else {
@@ -187,49 +499,247 @@ class PathFinder {
   }
 
   /**
-   * Processes the raw OSM data to populate osmNodes and osmWays.
+   * Frees memory by evicting least recently used tiles, e.g. when the OS reports memory
+   * pressure. The offline extract and the most recently used tile are always kept.
+   * @param maxElements Number of OSM elements to keep at most.
+   * @returns The number of tiles evicted.
+   */
+  public async trimTiles(maxElements: number = 0): Promise<number> {
+    const newest = Object.values(this.tiles).sort((a, b) => b.lastUsed - a.lastUsed)[0];
+    return this.evictTiles(maxElements, newest ? [newest.key] : []);
+  }
+
+  /**
+   * Evicts least recently used tiles until the loaded tiles hold at most `maxElements`
+   * OSM elements, then rebuilds the graph without them.
+   * @param maxElements The element budget.
+   * @param keepTileKeys Tiles that must stay loaded.
+   * @returns The number of tiles evicted.
+   */
+  private async evictTiles(maxElements: number, keepTileKeys: string[]): Promise<number> {
+    let totalSize = Object.values(this.tiles).reduce((sum, tile) => sum + tile.size, 0);
+    const candidates = Object.values(this.tiles)
+      .filter(tile => !PINNED_TILE_KEYS.includes(tile.key) && !keepTileKeys.includes(tile.key))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    let evicted = 0;
+    while (totalSize > maxElements && candidates.length > 0) {
+      const tile = candidates.shift()!;
+      totalSize -= tile.size;
+      this.unloadTile(tile);
+      evicted++;
+    }
+
+    if (evicted > 0) {
+      console.log(`Evicted ${evicted} road network tiles, ${Object.keys(this.tiles).length} still loaded`);
+      // Edges of evicted ways can't be told apart from shared ones, so the graph is rebuilt
+      await this.buildGraphFromOSM();
+    }
+    return evicted;
+  }
+
+  /**
+   * Drops the OSM elements of a tile that no other loaded tile contains. The graph still
+   * has their nodes and edges until it is rebuilt.
+   */
+  private unloadTile(tile: LoadedTile): void {
+    tile.elementKeys.forEach(elementKey => {
+      const refs = (this.elementRefs.get(elementKey) ?? 1) - 1;
+      if (refs > 0) {
+        this.elementRefs.set(elementKey, refs);
+        return;
+      }
+      this.elementRefs.delete(elementKey);
+
+      const id = elementKey.slice(1);
+      if (elementKey[0] === 'n') {
+        delete this.osmNodes[id];
+        delete this.places[id];
+      } else if (elementKey[0] === 'w') {
+        delete this.osmWays[id];
+      } else {
+        delete this.osmRelations[id];
+      }
+    });
+
+    delete this.tiles[tile.key];
+    if (tile.key === EXTRACT_TILE_KEY) {
+      this.extractVersion = null;
+      this.extractBounds = null;
+    }
+  }
+
+  /**
+   * Task that replaces the loaded network with raw OSM data and builds the graph from it.
+   * The PathFinder has no usable graph until the task finishes.
    * @param data The raw JSON data from Overpass API.
+   * @returns The task.
    */
-  private async processOSMData(data: any): Promise<void> {
-    try {
-      // Clear existing data before processing new data
-      this.osmNodes = {};
-      this.osmWays = {};
-      this.nodes = {}; // Clear graph nodes as well
-
-      data.elements.forEach((element: any) => {
-        if (element.type === 'node') {
-          this.osmNodes[element.id] = {
+  public *loadNetworkTask(data: { elements: any[] }): RouteTask<void> {
+    // Clear existing data before processing new data
+    this.isInitialized = false;
+    this.osmNodes = {};
+    this.osmWays = {};
+    this.osmRelations = {};
+    this.places = {};
+    this.graph = new CompactGraphBuilder().build(); // Clear the graph as well
+    this.tiles = {};
+    this.elementRefs = new Map();
+    this.extractVersion = null;
+    this.extractBounds = null;
+    this.maxSpeedKmh = Math.max(...Object.values(this.profile.speeds));
+
+    yield* this.mergeTileTask(NETWORK_TILE_KEY, data);
+    yield* this.validateGraphConnectivityTask();
+    yield* this.indexGraphTask();
+  }
+
+  /**
+   * Task that merges the OSM data of a tile into the loaded network: elements already
+   * loaded from another tile are shared, and the tile's road graph is joined with the
+   * loaded one. Ways that cross into a loaded tile share its node IDs, so the graph stays
+   * connected across the border.
+   * @param tileKey The tile key.
+   * @param data The raw JSON data from Overpass API.
+   * @param tileGraph The tile's road graph from the cache, if any; built from `data` otherwise.
+   * @returns The task; its result is the tile's road graph.
+   */
+  private *mergeTileTask(tileKey: string, data: { elements: any[] }, tileGraph: CompactGraph | null = null): RouteTask<CompactGraph> {
+    // Nodes referenced by roads; other nodes are only kept as places
+    const roadNodeIds = new Set<number>();
+    data.elements.forEach((element: any) => {
+      if (element.type === 'way' && this.isValidRoadWay(element)) {
+        element.nodes.forEach((nodeId: number) => roadNodeIds.add(nodeId));
+      }
+    });
+
+    const elementKeys: string[] = [];
+    const addRef = (elementKey: string) => {
+      elementKeys.push(elementKey);
+      this.elementRefs.set(elementKey, (this.elementRefs.get(elementKey) ?? 0) + 1);
+    };
+    const tileWays: OSMWay[] = [];
+    let newWaysCount = 0;
+
+    const total = data.elements.length;
+    for (let i = 0; i < total; i++) {
+      if (i % PARSE_PROGRESS_STEP === 0) {
+        yield { stage: 'parse', completed: i, total };
+      }
+
+      const element = data.elements[i];
+      if (element.type === 'node') {
+        const isPlace = this.isPlaceNode(element.tags);
+        const isRoadNode = roadNodeIds.has(element.id) || !element.tags;
+        if (isPlace) {
+          this.places[element.id] ??= {
+            id: element.id,
+            lat: element.lat,
+            lon: element.lon,
+            tags: element.tags,
+          };
+        }
+        if (isRoadNode) {
+          this.osmNodes[element.id] ??= {
             id: element.id,
             lat: element.lat,
             lon: element.lon,
           };
-        } else if (element.type === 'way') {
-          if (this.isValidRoadWay(element)) {
+        }
+        if (isPlace || isRoadNode) addRef(`n${element.id}`);
+      } else if (element.type === 'way') {
+        if (this.isValidRoadWay(element)) {
+          if (!this.osmWays[element.id]) {
             this.osmWays[element.id] = {
               id: element.id,
               nodes: element.nodes,
               tags: element.tags,
             };
+            newWaysCount++;
           }
+          tileWays.push(this.osmWays[element.id]);
+          addRef(`w${element.id}`);
         }
-      });
+      } else if (element.type === 'relation') {
+        if (element.tags?.type === 'restriction' && Array.isArray(element.members)) {
+          this.osmRelations[element.id] ??= {
+            id: element.id,
+            members: element.members,
+            tags: element.tags,
+          };
+          addRef(`r${element.id}`);
+        }
+      }
+    }
 
-      console.log('Processed raw OSM data', {
-        osmNodesCount: Object.keys(this.osmNodes).length,
-        osmWaysCount: Object.keys(this.osmWays).length
-      });
+    this.tiles[tileKey] = { key: tileKey, elementKeys, size: elementKeys.length, lastUsed: Date.now() };
+    console.log(`Merged road network tile ${tileKey}`, {
+      newWaysCount,
+      osmNodesCount: Object.keys(this.osmNodes).length,
+      osmWaysCount: Object.keys(this.osmWays).length,
+      placesCount: Object.keys(this.places).length
+    });
 
-      // Build graph from processed OSM data
-      await this.buildGraphFromOSM();
-      this.isInitialized = true;
-      console.log('PathFinder initialized with graph', {
-        graphNodesCount: Object.keys(this.nodes).length
+    if (tileGraph) {
+      // A cached graph skips addWayEdges, which keeps the fastest speed up to date
+      tileWays.forEach(way => {
+        if (isWayAllowed(this.profile, way.tags)) this.maxSpeedKmh = Math.max(this.maxSpeedKmh, this.getSpeedLimit(way.tags));
       });
-    } catch (error) {
-      console.error('Error processing OSM data:', error);
-      throw error;
+    } else {
+      // The tile's graph has all its ways, also those shared with loaded tiles, so it can be cached on its own
+      const builder = new CompactGraphBuilder();
+      let segmentsSinceProgress = 0;
+      for (let wayIndex = 0; wayIndex < tileWays.length; wayIndex++) {
+        const way = tileWays[wayIndex];
+        segmentsSinceProgress += way.nodes.length - 1;
+        if (segmentsSinceProgress >= GRAPH_PROGRESS_STEP) {
+          segmentsSinceProgress = 0;
+          yield { stage: 'graph', completed: wayIndex, total: tileWays.length };
+        }
+
+        way.nodes.forEach(nodeId => {
+          const osmNode = this.osmNodes[nodeId];
+          if (osmNode) {
+            builder.addNode(`osm_${nodeId}`, { latitude: osmNode.lat, longitude: osmNode.lon });
+          }
+        });
+        this.addWayEdges(builder, way);
+      }
+      tileGraph = yield* builder.buildTask();
     }
+
+    // Nodes and edges shared with the loaded graph are merged
+    const merged = new CompactGraphBuilder();
+    yield* merged.addGraphTask(this.graph);
+    yield* merged.addGraphTask(tileGraph);
+    this.graph = yield* merged.buildTask();
+
+    // No connectivity cleanup here: a part that looks isolated may connect to a tile loaded later
+    this.buildTurnRestrictions();
+
+    // Closures may cover roads of the newly loaded area
+    this.closedEdges = {};
+    Object.values(this.closures).forEach(closure => this.indexClosure(closure));
+
+    this.isInitialized = this.graph.nodeCount > 0;
+    console.log('PathFinder graph updated', {
+      graphNodesCount: this.graph.nodeCount,
+      tilesCount: Object.keys(this.tiles).length
+    });
+    yield* this.indexGraphTask();
+    return tileGraph;
+  }
+
+  /**
+   * Checks whether a node's tags describe a named POI, an address or a barangay.
+   * @param tags The OSM node tags, if any.
+   * @returns True if the node is useful for reverse geocoding.
+   */
+  private isPlaceNode(tags: { [key: string]: string } | undefined): boolean {
+    if (!tags) return false;
+    if (tags['addr:street']) return true;
+    if (tags.place && this.BARANGAY_PLACE_TYPES.includes(tags.place)) return !!tags.name;
+    return !!tags.name && this.POI_KEYS.some(key => tags[key]);
   }
 
   /**
@@ -252,68 +762,186 @@ class PathFinder {
    * Builds the graph (nodes and edges) from the processed OSM data.
    */
   private async buildGraphFromOSM(): Promise<void> {
+    await this.runGraphTask(this.buildGraphTask());
+  }
+
+  /**
+   * Runs a graph building task on the executor, or right away without one.
+   */
+  private async runGraphTask<T>(task: RouteTask<T>): Promise<T> {
+    return this.executor ? this.executor.run(task).promise : runTask(task);
+  }
+
+  private *buildGraphTask(): RouteTask<void> {
+    this.maxSpeedKmh = Math.max(...Object.values(this.profile.speeds));
+    const builder = new CompactGraphBuilder();
+
     // Add OSM nodes to graph
     Object.values(this.osmNodes).forEach((osmNode) => {
-      this.addNode(`osm_${osmNode.id}`, {
+      builder.addNode(`osm_${osmNode.id}`, {
         latitude: osmNode.lat,
         longitude: osmNode.lon,
       });
     });
 
     // Add edges from ways
-    Object.values(this.osmWays).forEach((way) => {
-      const roadType = way.tags.highway;
-      if (!roadType) return; // Should not happen if isValidRoadWay passed
+    // Ways vary from two nodes to hundreds, so progress is counted in segments
+    const ways = Object.values(this.osmWays);
+    let segmentsSinceProgress = 0;
+    for (let wayIndex = 0; wayIndex < ways.length; wayIndex++) {
+      const way = ways[wayIndex];
+      segmentsSinceProgress += way.nodes.length - 1;
+      if (segmentsSinceProgress >= GRAPH_PROGRESS_STEP) {
+        segmentsSinceProgress = 0;
+        yield { stage: 'graph', completed: wayIndex, total: ways.length };
+      }
+      this.addWayEdges(builder, way);
+    }
+
+    this.buildTurnRestrictions();
 
-      const speedLimit = this.getSpeedLimit(way.tags);
-      const isOneWay = this.isOneWayStreet(way.tags, roadType);
+    // Validate graph connectivity after adding all nodes and edges
+    yield { stage: 'graph', completed: ways.length, total: ways.length };
+    this.graph = yield* builder.buildTask();
+    yield* this.validateGraphConnectivityTask();
+    yield* this.indexGraphTask();
+
+    // Closures may cover roads of the newly loaded area
+    this.closedEdges = {};
+    Object.values(this.closures).forEach(closure => this.indexClosure(closure));
+    this.isInitialized = this.graph.nodeCount > 0;
+  }
 
-      for (let i = 0; i < way.nodes.length - 1; i++) {
-        const node1Id = `osm_${way.nodes[i]}`;
-        const node2Id = `osm_${way.nodes[i + 1]}`;
+  /**
+   * Adds the edges of an OSM way between graph nodes that exist.
+   * @param builder The graph being built.
+   * @param way The OSM way.
+   */
+  private addWayEdges(builder: CompactGraphBuilder, way: OSMWay): void {
+    const roadType = way.tags.highway;
+    if (!roadType) return; // Should not happen if isValidRoadWay passed
+    if (!isWayAllowed(this.profile, way.tags)) return; // Road closed to this vehicle
+
+    const speedLimit = this.getSpeedLimit(way.tags);
+    const penalty = getWayPenalty(this.profile, way.tags);
+    this.maxSpeedKmh = Math.max(this.maxSpeedKmh, speedLimit);
+    const isOneWay = this.isOneWayStreet(way.tags, roadType);
+
+    for (let i = 0; i < way.nodes.length - 1; i++) {
+      const node1Id = `osm_${way.nodes[i]}`;
+      const node2Id = `osm_${way.nodes[i + 1]}`;
+      
+      const node1Osm = this.osmNodes[way.nodes[i]];
+      const node2Osm = this.osmNodes[way.nodes[i + 1]];
+
+      // Ensure both OSM nodes exist and are added to our graph
+      if (node1Osm && node2Osm && builder.hasNode(node1Id) && builder.hasNode(node2Id)) {
+        const point1 = { latitude: node1Osm.lat, longitude: node1Osm.lon };
+        const point2 = { latitude: node2Osm.lat, longitude: node2Osm.lon };
         
-        const node1Osm = this.osmNodes[way.nodes[i]];
-        const node2Osm = this.osmNodes[way.nodes[i + 1]];
-
-        // Ensure both OSM nodes exist and are added to our graph
-        if (node1Osm && node2Osm && this.nodes[node1Id] && this.nodes[node2Id]) {
-          const point1 = { latitude: node1Osm.lat, longitude: node1Osm.lon };
-          const point2 = { latitude: node2Osm.lat, longitude: node2Osm.lon };
-          
-          const distance = this.calculateDistance(point1, point2);
-          
-          // Edge weight is distance / speed to represent time (meters / (m/s) = seconds)
-          // Speed limit is in km/h, convert to m/s: speedLimit * 1000 / 3600
-          const effectiveSpeedMps = speedLimit * 1000 / 3600; // meters per second
-          const weight = effectiveSpeedMps > 0 ? distance / effectiveSpeedMps : Infinity; // Time in seconds
-
-          if (isOneWay) {
-            this.addEdge(node1Id, node2Id, weight);
-          } else {
-            this.addEdge(node1Id, node2Id, weight);
-            this.addEdge(node2Id, node1Id, weight);
-          }
+        const distance = this.calculateDistance(point1, point2);
+        
+        // Edge weight is distance / speed to represent time (meters / (m/s) = seconds)
+        // Speed limit is in km/h, convert to m/s: speedLimit * 1000 / 3600
+        // Discouraged roads for the vehicle profile cost a multiple of their travel time
+        const effectiveSpeedMps = speedLimit * 1000 / 3600; // meters per second
+        const weight = effectiveSpeedMps > 0 ? (distance / effectiveSpeedMps) * penalty : Infinity; // Time in seconds
+
+        builder.addEdge(node1Id, node2Id, weight, way.id);
+        if (!isOneWay) {
+          builder.addEdge(node2Id, node1Id, weight, way.id);
         }
       }
+    }
+  }
+
+  /**
+   * Builds the turn restriction lookup from OSM `restriction` relations.
+   * Only restrictions with a single via node whose from/to ways are loaded are kept;
+   * via-way restrictions are skipped.
+   */
+  private buildTurnRestrictions(): void {
+    this.turnRestrictions = {};
+    let skipped = 0;
+
+    Object.values(this.osmRelations).forEach(relation => {
+      // Vehicle-specific restrictions for cars apply to tricycles as well
+      const restriction = relation.tags.restriction ?? relation.tags['restriction:motorcar'];
+      const kind = restriction?.startsWith('only_') ? 'only' : restriction?.startsWith('no_') ? 'no' : null;
+
+      const from = relation.members.filter(m => m.role === 'from' && m.type === 'way');
+      const via = relation.members.filter(m => m.role === 'via');
+      const to = relation.members.filter(m => m.role === 'to' && m.type === 'way');
+
+      if (!kind || from.length !== 1 || to.length !== 1 || via.length !== 1 || via[0].type !== 'node' ||
+          !this.osmWays[from[0].ref] || !this.osmWays[to[0].ref]) {
+        skipped++;
+        return;
+      }
+
+      const viaNode = `osm_${via[0].ref}`;
+      (this.turnRestrictions[viaNode] ??= []).push({
+        id: relation.id,
+        kind,
+        fromWay: from[0].ref,
+        viaNode,
+        toWay: to[0].ref,
+      });
     });
 
-    // Validate graph connectivity after adding all nodes and edges
-    await this.validateGraphConnectivity();
+    const restrictionCount = Object.values(this.turnRestrictions).reduce((sum, list) => sum + list.length, 0);
+    if (restrictionCount > 0 || skipped > 0) {
+      console.log(`Loaded ${restrictionCount} turn restrictions (${skipped} unsupported or outside the loaded area)`);
+    }
+  }
+
+  /**
+   * Checks whether moving prev -> via -> next is allowed by the turn restrictions at `via`.
+   * @param prevId The graph node the vehicle arrives from.
+   * @param viaId The graph node where the turn happens.
+   * @param nextId The graph node the vehicle continues to.
+   * @returns False if a restriction forbids the turn, true otherwise.
+   */
+  private isTurnAllowed(prevId: string, viaId: string, nextId: string): boolean {
+    const restrictions = this.turnRestrictions[viaId];
+    if (!restrictions) return true;
+
+    const fromWay = this.getEdgeWayId(prevId, viaId);
+    const toWay = this.getEdgeWayId(viaId, nextId);
+
+    for (const restriction of restrictions) {
+      if (restriction.fromWay !== fromWay) continue;
+      if (restriction.kind === 'no' && restriction.toWay === toWay) return false;
+      if (restriction.kind === 'only' && restriction.toWay !== toWay) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Flags the nodes of a compact graph that are via nodes of turn restrictions, where
+   * searches have to remember the node they arrived from.
+   */
+  private getRestrictedViaMask(graph: CompactGraph): Uint8Array {
+    const mask = new Uint8Array(graph.nodeCount);
+    Object.keys(this.turnRestrictions).forEach(viaId => {
+      const index = graph.indexOf(viaId);
+      if (index >= 0) mask[index] = 1;
+    });
+    return mask;
   }
 
   /**
-   * Determines the speed limit for a road segment based on OSM tags or default values.
+   * Determines the speed for a road segment based on OSM tags or the vehicle profile's speed table.
    * @param tags The tags object from an OSM way.
-   * @returns The speed limit in km/h.
+   * @returns The speed in km/h, never above the profile's maximum speed.
    */
   private getSpeedLimit(tags: { [key: string]: string | undefined }): number {
     if (tags.maxspeed) {
       const speed = parseInt(tags.maxspeed);
-      if (!isNaN(speed) && speed > 0) return speed;
+      if (!isNaN(speed) && speed > 0) return Math.min(speed, this.profile.maxSpeed);
     }
 
-    const roadType = tags.highway;
-    return this.DEFAULT_SPEEDS[roadType || 'unclassified'] || this.AVERAGE_SPEED_KMH;
+    return getProfileSpeed(this.profile, tags.highway || 'unclassified');
   }
 
   /**
@@ -329,311 +957,981 @@ class PathFinder {
   }
 
   /**
-   * Adds a node to the graph.
-   * @param id The unique ID of the node.
-   * @param point The geographical coordinates of the node.
+   * Adds a node to the graph. The graph is rebuilt for every call, so load OSM data to
+   * add a whole area.
+   * @param id The unique ID of the node.
+   * @param point The geographical coordinates of the node.
+   */
+  addNode(id: string, point: Point) {
+    if (this.graph.hasNode(id)) return;
+    const builder = new CompactGraphBuilder(this.graph);
+    builder.addNode(id, point);
+    this.graph = builder.build();
+  }
+
+  /**
+   * Adds an edge between two nodes. The weight represents the time to traverse. The graph
+   * is rebuilt for every call, like `addNode`.
+   * @param node1Id The ID of the first node.
+   * @param node2Id The ID of the second node.
+   * @param weight The calculated weight (e.g., time in seconds).
+   */
+  addEdge(node1Id: string, node2Id: string, weight: number) {
+    if (!this.graph.hasNode(node1Id) || !this.graph.hasNode(node2Id)) {
+      // console.warn(`Attempted to add edge between non-existent nodes: ${node1Id} or ${node2Id}`);
+      return;
+    }
+
+    // Replaces the weight if the edge exists (though Dijkstra handles this)
+    const builder = new CompactGraphBuilder(this.graph);
+    builder.addEdge(node1Id, node2Id, weight);
+    this.graph = builder.build();
+  }
+
+  /**
+   * Validates graph connectivity and removes small isolated parts of the graph.
+   * Tiles far apart are separate parts until the tiles between them are loaded, so only
+   * parts smaller than MIN_COMPONENT_NODES are removed, never a whole area.
+   */
+  private *validateGraphConnectivityTask(): RouteTask<void> {
+    const graph = this.graph;
+    const { offsets, targets } = graph;
+    const nodeCount = graph.nodeCount;
+    if (nodeCount === 0) {
+      console.warn('Graph is empty, no connectivity to validate.');
+      return;
+    }
+
+    // Edges are directed; connectivity is checked as if they were not, so the edges are
+    // also grouped by target node
+    const reverseOffsets = new Int32Array(nodeCount + 1);
+    for (let edge = 0; edge < graph.edgeCount; edge++) {
+      reverseOffsets[targets[edge] + 1]++;
+    }
+    for (let node = 0; node < nodeCount; node++) {
+      reverseOffsets[node + 1] += reverseOffsets[node];
+    }
+    const reverseSources = new Int32Array(graph.edgeCount);
+    const next = reverseOffsets.slice(0, nodeCount);
+    for (let node = 0; node < nodeCount; node++) {
+      for (let edge = offsets[node]; edge < offsets[node + 1]; edge++) {
+        reverseSources[next[targets[edge]]++] = node;
+      }
+    }
+
+    // Label the connected parts with a BFS from every node not yet visited
+    const visited = new Uint8Array(nodeCount);
+    const keep = new Uint8Array(nodeCount).fill(1);
+    const component = new Int32Array(nodeCount);
+    let isolatedCount = 0;
+    for (let startNode = 0; startNode < nodeCount; startNode++) {
+      if (startNode % GRAPH_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: startNode, total: nodeCount };
+      }
+      if (visited[startNode]) continue;
+
+      let size = 0;
+      component[size++] = startNode;
+      visited[startNode] = 1;
+      for (let i = 0; i < size; i++) {
+        const current = component[i];
+        for (let edge = offsets[current]; edge < offsets[current + 1]; edge++) {
+          const neighbor = targets[edge];
+          if (!visited[neighbor]) {
+            visited[neighbor] = 1;
+            component[size++] = neighbor;
+          }
+        }
+        for (let k = reverseOffsets[current]; k < reverseOffsets[current + 1]; k++) {
+          const neighbor = reverseSources[k];
+          if (!visited[neighbor]) {
+            visited[neighbor] = 1;
+            component[size++] = neighbor;
+          }
+        }
+      }
+
+      if (size < MIN_COMPONENT_NODES) {
+        for (let i = 0; i < size; i++) keep[component[i]] = 0;
+        isolatedCount += size;
+      }
+    }
+
+    // Keep everything if the whole graph is one small part, e.g. a test network
+    if (isolatedCount > 0 && isolatedCount < nodeCount) {
+      this.graph = yield* graph.subgraphTask(keep);
+      console.warn(`Removed ${isolatedCount} isolated nodes from the graph.`);
+    }
+
+    // Check if the graph is too sparse. Average degree is a rough indicator.
+    const totalNodes = this.graph.nodeCount;
+    // Here, we're building a directed graph so count every edge
+    const totalEdges = this.graph.edgeCount;
+    const averageDegree = totalNodes > 0 ? totalEdges / totalNodes : 0;
+
+    if (averageDegree < 1.5 && totalNodes > 10) { // Only warn for non-trivial graphs
+      console.warn('Graph is too sparse, may not provide good pathfinding results. Average degree:', averageDegree.toFixed(2));
+    }
+  }
+
+  /**
+   * Finds the nearest road node to a given point with the spatial index. Prefers nodes
+   * with outgoing edges, since a route can't start at a node it can't leave.
+   * @param point The reference point.
+   * @param maxDistance Only nodes within this many meters are considered.
+   * @returns The ID of the nearest node, or null if none is within `maxDistance`.
+   */
+  findNearestOsmNode(point: Point, maxDistance: number = Infinity): string | null {
+    if (!this.isInitialized) {
+      console.warn('PathFinder not initialized, cannot search for the nearest node.');
+      return null;
+    }
+
+    const index = this.getSpatialIndex();
+    const { offsets } = index.graph;
+    const [connected] = index.nearestNodes(point, 1, maxDistance, node => offsets[node + 1] > offsets[node]);
+    if (connected) return connected.nodeId;
+
+    // As a last resort return a node that roads only lead into, e.g. the end of a one-way street
+    const [nearest] = index.nearestNodes(point, 1, maxDistance);
+    if (nearest) {
+      console.warn(`Nearest graph node ${nearest.nodeId} has no outgoing edges`);
+    }
+    return nearest?.nodeId ?? null;
+  }
+
+  /**
+   * Matches a coordinate to the nearest road: projects it onto the closest edge, so a
+   * pickup mid-block starts there instead of at the nearest intersection, which may be
+   * around the corner or on a parallel street.
+   * @param point The coordinate to snap, e.g. a pickup or dropoff.
+   * @param maxDistance Maximum distance in meters to the road.
+   * @returns The matched road position, or null if no road is within `maxDistance`.
+   */
+  snap(point: Point, maxDistance: number = 10000): SnapResult | null {
+    if (!this.isInitialized) {
+      console.warn('PathFinder not initialized, cannot snap to the road network.');
+      return null;
+    }
+
+    const [nearest] = this.getSpatialIndex().nearestEdges(point, 1, maxDistance);
+    if (!nearest) {
+      console.warn(`No road within ${maxDistance}m of [${point.latitude}, ${point.longitude}]`);
+      return null;
+    }
+
+    const { fromId, toId } = nearest;
+    const nodeId = nearest.fraction < 0.5 ? fromId : toId;
+    const nodePoint = this.graph.getNodePoint(nodeId)!;
+    const atNode = this.calculateDistance(nearest.point, nodePoint) < SNAP_NODE_DISTANCE;
+    const fraction = atNode ? (nodeId === fromId ? 0 : 1) : nearest.fraction;
+    const snapped = atNode ? nodePoint : nearest.point;
+
+    return {
+      nodeId,
+      point: snapped,
+      distance: this.calculateDistance(point, snapped),
+      position: { fromId, toId, fraction, oneWay: this.graph.findEdge(toId, fromId) < 0 },
+    };
+  }
+
+  /**
+   * Gets the graph nodes a route can leave a start from or reach an end through, with the
+   * cost of the partial edge between the node and the endpoint. One-way roads are only
+   * driven in their direction.
+   * @param endpoint The start or end of the route.
+   * @param role Whether the endpoint is the start or the end.
+   * @param edgeCost Optional cost override, as in `searchPath`.
+   * @param time When the partial edge is driven, for road closures.
+   * @returns The nodes with the partial edge and its cost before traffic; empty if the
+   * endpoint's road is closed.
+   */
+  private getEndpointLinks(
+    endpoint: RouteEndpoint,
+    role: 'start' | 'end',
+    edgeCost: ((fromId: string, toId: string, weight: number) => number) | undefined,
+    time: number
+  ): { nodeId: string; cost: number; edge?: [string, string] }[] {
+    if (typeof endpoint === 'string') return [{ nodeId: endpoint, cost: 0 }];
+    const position = endpoint.position;
+    if (!position) return [{ nodeId: endpoint.nodeId, cost: 0 }];
+
+    const { fromId, toId, fraction, oneWay } = position;
+    // Each link drives part of an edge: [edge from, edge to, share of the edge, node]
+    const links: [string, string, number, string][] = role === 'start'
+      ? [[fromId, toId, 1 - fraction, toId], [toId, fromId, fraction, fromId]]
+      : [[fromId, toId, fraction, fromId], [toId, fromId, 1 - fraction, toId]];
+
+    return (oneWay ? links.slice(0, 1) : links).flatMap(([edgeFrom, edgeTo, share, nodeId]) => {
+      const weight = this.getEdgeWeight(edgeFrom, edgeTo);
+      if (weight === undefined) return [];
+      const closureFactor = this.getEdgeClosureFactor(edgeFrom, edgeTo, time);
+      if (closureFactor === Infinity) return [];
+      const cost = (edgeCost ? edgeCost(edgeFrom, edgeTo, weight) : weight) * share * closureFactor;
+      return [{ nodeId, cost, edge: [edgeFrom, edgeTo] as [string, string] }];
+    });
+  }
+
+  /**
+   * Cost of driving from a start to an end on the same road without passing a node, e.g.
+   * a pickup and dropoff on the same block.
+   * @returns The cost before traffic and the edge driven, or an Infinity cost if the end
+   * can't be reached that way.
+   */
+  private getDirectCost(
+    start: RouteEndpoint,
+    end: RouteEndpoint,
+    edgeCost?: (fromId: string, toId: string, weight: number) => number
+  ): { cost: number; edge?: [string, string] } {
+    const unreachable = { cost: Infinity };
+    if (typeof start === 'string' || typeof end === 'string' || !start.position || !end.position) return unreachable;
+    const { fromId, toId, fraction, oneWay } = start.position;
+
+    // The end's fraction along the start's edge direction
+    let endFraction: number;
+    if (end.position.fromId === fromId && end.position.toId === toId) {
+      endFraction = end.position.fraction;
+    } else if (end.position.fromId === toId && end.position.toId === fromId) {
+      endFraction = 1 - end.position.fraction;
+    } else {
+      return unreachable;
+    }
+
+    const [edgeFrom, edgeTo] = endFraction >= fraction ? [fromId, toId] : [toId, fromId];
+    if (endFraction < fraction && oneWay) return unreachable;
+    const weight = this.getEdgeWeight(edgeFrom, edgeTo);
+    if (weight === undefined) return unreachable;
+    return {
+      cost: (edgeCost ? edgeCost(edgeFrom, edgeTo, weight) : weight) * Math.abs(endFraction - fraction),
+      edge: [edgeFrom, edgeTo],
+    };
+  }
+
+  /**
+   * Gets the graph node an endpoint refers to, for validation and logging.
+   */
+  private getEndpointNodeId(endpoint: RouteEndpoint): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.nodeId;
+  }
+
+  /**
+   * Finds the shortest path between two nodes using A* (default) or Dijkstra's algorithm.
+   * The 'weight' of edges is time in seconds, so it finds the fastest path.
+   * At via nodes of turn restrictions the search state also includes the node it arrived
+   * from (a turn-expanded graph), so forbidden turns are never part of the result.
+   * Snapped coordinates start and end the route mid-segment, see `snap`.
+   * @param start The ID of the starting node, or a snapped coordinate.
+   * @param end The ID of the ending node, or a snapped coordinate.
+   * @param options Search options, e.g. `{ algorithm: 'dijkstra' }` to disable the heuristic.
+   * @returns A PathResult object if a path is found, otherwise null.
+   */
+  findShortestPath(start: RouteEndpoint, end: RouteEndpoint, options: PathOptions = {}): PathResult | null {
+    return runTask(this.shortestPathTask(start, end, options));
+  }
+
+  /**
+   * Task form of `findShortestPath`, for running the search on a RouteExecutor.
+   * @param start The ID of the starting node, or a snapped coordinate.
+   * @param end The ID of the ending node, or a snapped coordinate.
+   * @param options Search options.
+   * @returns The task; its result is the PathResult, or null if no path is found.
+   */
+  public *shortestPathTask(start: RouteEndpoint, end: RouteEndpoint, options: PathOptions = {}): RouteTask<PathResult | null> {
+    if (!this.isInitialized) {
+      console.error('PathFinder not initialized. Call fetchRoadNetwork first.');
+      return null;
+    }
+    const startId = this.getEndpointNodeId(start);
+    const endId = this.getEndpointNodeId(end);
+    if (!this.graph.hasNode(startId) || !this.graph.hasNode(endId)) {
+      console.error('Start or end node not found in graph:', { startId, endId });
+      return null;
+    }
+
+    const departureTime = options.departureTime ?? new Date();
+    const path = yield* this.searchPathTask(start, end, options.algorithm ?? 'astar', this.toEdgeCost(options.costFunction), departureTime);
+    if (!path) {
+      console.warn('No path found between nodes:', startId, 'to', endId);
+      return null;
+    }
+
+    const result = yield* this.buildPathResultTask(path, departureTime, start, end);
+    console.log(`Path found from ${startId} to ${endId}. Distance: ${result.distance.toFixed(2)} km, Estimated Time: ${result.estimatedTime.toFixed(2)} mins, Fare: ₱${result.fare.toFixed(2)}`);
+    return result;
+  }
+
+  /**
+   * Finds up to `maxAlternatives` meaningfully different routes between two nodes using
+   * the penalty method: after each route is found, its edges are made more expensive and
+   * the search is repeated. Routes that mostly overlap an earlier one or are much slower
+   * than the fastest route are discarded.
+   * @param start The ID of the starting node, or a snapped coordinate.
+   * @param end The ID of the ending node, or a snapped coordinate.
+   * @param options Alternative route options.
+   * @returns The routes ordered from fastest to slowest; empty if no path exists.
+   */
+  findAlternativePaths(start: RouteEndpoint, end: RouteEndpoint, options: AlternativeOptions = {}): PathResult[] {
+    return runTask(this.alternativePathsTask(start, end, options));
+  }
+
+  /**
+   * Task form of `findAlternativePaths`, for running the searches on a RouteExecutor.
+   * @param start The ID of the starting node, or a snapped coordinate.
+   * @param end The ID of the ending node, or a snapped coordinate.
+   * @param options Alternative route options.
+   * @returns The task; its result is the routes from fastest to slowest.
+   */
+  public *alternativePathsTask(start: RouteEndpoint, end: RouteEndpoint, options: AlternativeOptions = {}): RouteTask<PathResult[]> {
+    const {
+      algorithm = 'astar',
+      costFunction,
+      departureTime = new Date(),
+      maxAlternatives = 3,
+      penaltyFactor = 1.4,
+      maxOverlap = 0.7,
+      maxStretch = 1.5,
+    } = options;
+
+    const best = yield* this.shortestPathTask(start, end, { algorithm, costFunction, departureTime });
+    if (!best) return [];
+
+    const baseCost = this.toEdgeCost(costFunction);
+    const bestCost = this.calculatePathCost(best.path, baseCost);
+    const routes: { result: PathResult; edges: Set<string> }[] = [
+      { result: best, edges: this.getPathEdges(best.path) },
+    ];
+
+    // Edge key -> accumulated penalty multiplier
+    const penalties = new Map<string, number>();
+    const penalize = (path: string[]) => {
+      this.getPathEdges(path).forEach(edge => penalties.set(edge, (penalties.get(edge) ?? 1) * penaltyFactor));
+    };
+    const penalizedCost = (fromId: string, toId: string, weight: number) =>
+      (baseCost ? baseCost(fromId, toId, weight) : weight) * (penalties.get(`${fromId}|${toId}`) ?? 1);
+
+    penalize(best.path);
+
+    // Each round either yields a new route or adds penalties; cap the rounds to bound the work
+    for (let round = 0; round < maxAlternatives * 3 && routes.length < maxAlternatives; round++) {
+      const path = yield* this.searchPathTask(start, end, algorithm, penalizedCost, departureTime);
+      if (!path) break;
+      penalize(path);
+
+      if (this.calculatePathCost(path, baseCost) > bestCost * maxStretch) continue;
+
+      const edges = this.getPathEdges(path);
+      const pathLength = this.calculateEdgeLength(edges);
+      const overlapsExisting = routes.some(route => {
+        const shared = new Set([...edges].filter(edge => route.edges.has(edge)));
+        return pathLength > 0 && this.calculateEdgeLength(shared) / pathLength > maxOverlap;
+      });
+      if (overlapsExisting) continue;
+
+      routes.push({ result: yield* this.buildPathResultTask(path, departureTime, start, end), edges });
+    }
+
+    return routes
+      .map(route => route.result)
+      .sort((a, b) => a.estimatedTime - b.estimatedTime);
+  }
+
+  /**
+   * Finds the fastest route visiting the given nodes in order, e.g. pickup, stops and dropoff.
+   * Each leg is routed separately and the legs are stitched into a single path.
+   * @param waypoints The graph node IDs or snapped coordinates to visit, in order (at least two).
+   * @param options Search options used for every leg.
+   * @returns The combined route with per-leg results, or null if any leg has no path.
+   */
+  findPathThroughWaypoints(waypoints: RouteEndpoint[], options: PathOptions = {}): MultiLegPathResult | null {
+    return runTask(this.waypointPathTask(waypoints, options));
+  }
+
+  /**
+   * Task form of `findPathThroughWaypoints`, for running the searches on a RouteExecutor.
+   * @param waypoints The graph node IDs or snapped coordinates to visit, in order (at least two).
+   * @param options Search options used for every leg.
+   * @returns The task; its result is the combined route, or null if any leg has no path.
+   */
+  public *waypointPathTask(waypoints: RouteEndpoint[], options: PathOptions = {}): RouteTask<MultiLegPathResult | null> {
+    if (waypoints.length < 2) {
+      console.error('At least two waypoints are required, got', waypoints.length);
+      return null;
+    }
+
+    const legs: PathResult[] = [];
+    let legDeparture = options.departureTime ?? new Date();
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const leg = yield* this.shortestPathTask(waypoints[i], waypoints[i + 1], { ...options, departureTime: legDeparture });
+      if (!leg) {
+        console.warn(`No path for leg ${i + 1} from ${this.getEndpointNodeId(waypoints[i])} to ${this.getEndpointNodeId(waypoints[i + 1])}`);
+        return null;
+      }
+      legs.push(leg);
+      // The next leg starts when this one arrives
+      legDeparture = new Date(legDeparture.getTime() + leg.estimatedTime * 60 * 1000);
+    }
+
+    // Consecutive legs share their waypoint node, keep it once. A waypoint mid-segment lies
+    // on the edge between the last node of one leg and the first node of the next.
+    const path = legs.reduce<string[]>(
+      (stitched, leg) => stitched.concat(leg.path[0] === stitched[stitched.length - 1] ? leg.path.slice(1) : leg.path),
+      []
+    );
+    const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const estimatedTime = legs.reduce((sum, leg) => sum + leg.estimatedTime, 0);
+
+    return {
+      path,
+      distance,
+      estimatedTime,
+      // A multi-stop trip is one ride, so the base fare is only charged once
+      fare: calculateFare(distance, this.tagTrip(path, legs[0].startPoint, legs[legs.length - 1].endPoint)),
+      startPoint: legs[0].startPoint,
+      endPoint: legs[legs.length - 1].endPoint,
+      startPosition: legs[0].startPosition,
+      endPosition: legs[legs.length - 1].endPosition,
+      legs,
+    };
+  }
+
+  /**
+   * One-to-many bounded search: travel time from a node to every node reachable within a time budget.
+   * Respects one-way streets and turn restrictions like the point-to-point search.
+   * @param startId The ID of the starting node.
+   * @param maxTime The time budget in seconds.
+   * @param departureTime Departure time for the traffic profile; defaults to now.
+   * @returns Travel time in seconds for each reachable node ID, including the start node at 0.
+   */
+  findReachableNodes(startId: string, maxTime: number, departureTime: Date = new Date()): { [nodeId: string]: number } {
+    return runTask(this.findReachableNodesTask(startId, maxTime, departureTime));
+  }
+
+  /**
+   * Task form of `findReachableNodes`, for running the search on a RouteExecutor.
+   * @param startId The ID of the starting node.
+   * @param maxTime The time budget in seconds.
+   * @param departureTime Departure time for the traffic profile; defaults to now.
+   * @returns The task; its result is the travel time in seconds for each reachable node ID.
+   */
+  public *findReachableNodesTask(startId: string, maxTime: number, departureTime: Date = new Date()): RouteTask<{ [nodeId: string]: number }> {
+    const reachable: { [nodeId: string]: number } = {};
+    const graph = this.getCompactGraph();
+    const start = graph.indexOf(startId);
+    if (start < 0) {
+      console.error('Start node not found in graph:', startId);
+      return reachable;
+    }
+
+    // Same turn-expanded states as searchPathTask
+    const { ids, offsets, targets, weights, edgeWayIds } = graph;
+    const nodeCount = graph.nodeCount;
+    const restrictedVia = this.getRestrictedViaMask(graph);
+    const stateKey = (node: number, prev: number) =>
+      restrictedVia[node] ? nodeCount + prev * nodeCount + node : node;
+    const stateNode = (state: number) => state < nodeCount ? state : (state - nodeCount) % nodeCount;
+    const hasClosures = Object.keys(this.closedEdges).length > 0;
+
+    const times = new Map<number, number>([[start, 0]]);
+    const previousNodes = new Map<number, number>([[start, -1]]);
+    const closed = new Set<number>();
+    const priorityQueue = new PriorityQueue<number>();
+    priorityQueue.enqueue([0, start]);
+
+    let nodesProcessed = 0;
+    while (!priorityQueue.isEmpty()) {
+      const [time, currentState] = priorityQueue.dequeue()!;
+      if (closed.has(currentState)) continue;
+      closed.add(currentState);
+
+      nodesProcessed++;
+      if (nodesProcessed % SEARCH_PROGRESS_STEP === 0) {
+        yield { stage: 'search', completed: time, total: maxTime };
+      }
+
+      const current = stateNode(currentState);
+      const previous = previousNodes.get(currentState)!;
+      const currentId = ids[current];
+      reachable[currentId] = Math.min(reachable[currentId] ?? Infinity, time);
+
+      const arrival = departureTime.getTime() + time * 1000;
+      for (let edge = offsets[current]; edge < offsets[current + 1]; edge++) {
+        const neighbor = targets[edge];
+        if (previous >= 0 && restrictedVia[current] && !this.isTurnAllowed(ids[previous], currentId, ids[neighbor])) continue;
+
+        const closureFactor = hasClosures ? this.getEdgeClosureFactor(currentId, ids[neighbor], arrival) : 1;
+        if (closureFactor === Infinity) continue;
+
+        let newTime = weights[edge] * closureFactor;
+        if (this.trafficProfile) {
+          const way = this.osmWays[edgeWayIds[edge]];
+          if (way) newTime /= getTrafficMultiplier(this.trafficProfile, way, new Date(arrival));
+        }
+        newTime += time;
+        if (newTime > maxTime) continue;
+
+        const neighborState = stateKey(neighbor, current);
+        if (closed.has(neighborState) || newTime >= (times.get(neighborState) ?? Infinity)) continue;
+
+        times.set(neighborState, newTime);
+        previousNodes.set(neighborState, current);
+        priorityQueue.enqueue([newTime, neighborState]);
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Routes between two coordinates: snaps both to the road graph, finds the fastest path
+   * and returns it with its road geometry and turn instructions.
+   * @param start The start coordinate.
+   * @param end The end coordinate.
+   * @param options Search options.
+   * @returns The route, or null if either point is off the network or no path exists.
+   */
+  route(start: Point, end: Point, options: PathOptions = {}): RouteResult | null {
+    const startSnap = this.snap(start);
+    const endSnap = this.snap(end);
+    if (!startSnap || !endSnap) {
+      console.warn('Could not snap route endpoints to the road network');
+      return null;
+    }
+
+    const result = this.findShortestPath(startSnap, endSnap, options);
+    return result ? this.toRouteResult(result, startSnap, endSnap, end) : null;
+  }
+
+  /**
+   * Like `route`, but returns up to `maxAlternatives` different routes, fastest first.
+   * @param start The start coordinate.
+   * @param end The end coordinate.
+   * @param options Alternative route options.
+   * @returns The routes; empty if either point is off the network or no path exists.
    */
-  addNode(id: string, point: Point) {
-    if (!this.nodes[id]) {
-      this.nodes[id] = {
-        id,
-        point,
-        neighbors: {},
-      };
+  routeAlternatives(start: Point, end: Point, options: AlternativeOptions = {}): RouteResult[] {
+    const startSnap = this.snap(start);
+    const endSnap = this.snap(end);
+    if (!startSnap || !endSnap) {
+      console.warn('Could not snap route endpoints to the road network');
+      return [];
     }
+
+    return this.findAlternativePaths(startSnap, endSnap, options)
+      .map(result => this.toRouteResult(result, startSnap, endSnap, end));
+  }
+
+  private toRouteResult(result: PathResult, start: SnapResult, end: SnapResult, destination: Point): RouteResult {
+    const maneuvers = this.getRouteManeuvers(result, { destination });
+    return {
+      ...result,
+      start,
+      end,
+      coordinates: this.getRouteCoordinates(result),
+      maneuvers,
+      instructions: maneuvers.map(maneuver => maneuver.instruction),
+    };
   }
 
   /**
-   * Adds an edge between two nodes. The weight represents the time to traverse.
-   * @param node1Id The ID of the first node.
-   * @param node2Id The ID of the second node.
-   * @param weight The calculated weight (e.g., time in seconds).
+   * Core A* and Dijkstra search over the (turn-expanded) graph.
+   * @param start The ID of the starting node, or a snapped coordinate: the search then
+   *   starts from the nodes of its edge, with the cost of the partial edge to each.
+   * @param end The ID of the ending node, or a snapped coordinate.
+   * @param algorithm 'astar' to use the heuristic, 'dijkstra' for a plain search.
+   * @param edgeCost Optional cost override; must never return less than `weight`
+   *   or the A* heuristic stops being admissible.
+   * @param departureTime When set, edge costs are slowed down by the traffic profile at the
+   *   time the edge is reached (departure plus the cost so far). Road closures are checked
+   *   at that time too, or at the current time without a departure time.
+   * @returns The node IDs of the cheapest path, or null if the end is unreachable. The path
+   *   is empty when both endpoints are on the same edge and no node is passed.
    */
-  addEdge(node1Id: string, node2Id: string, weight: number) {
-    const node1 = this.nodes[node1Id];
-    const node2 = this.nodes[node2Id];
-
-    if (!node1 || !node2) {
-      // console.warn(`Attempted to add edge between non-existent nodes: ${node1Id} or ${node2Id}`);
-      return;
-    }
-    
-    // Only add if the edge doesn't exist or new weight is better (though Dijkstra handles this)
-    node1.neighbors[node2Id] = weight;
+  private searchPath(
+    start: RouteEndpoint,
+    end: RouteEndpoint,
+    algorithm: SearchAlgorithm,
+    edgeCost?: (fromId: string, toId: string, weight: number) => number,
+    departureTime?: Date
+  ): string[] | null {
+    return runTask(this.searchPathTask(start, end, algorithm, edgeCost, departureTime));
   }
 
   /**
-   * Validates graph connectivity and removes isolated nodes.
-   * This ensures that pathfinding operates on a connected graph.
+   * Task form of `searchPath`. Progress is the straight-line distance toward the end
+   * covered by the closest node settled so far. Walks the compact graph, so search
+   * states are numbers instead of node ID strings.
    */
-  private validateGraphConnectivity() {
-    if (Object.keys(this.nodes).length === 0) {
-      console.warn('Graph is empty, no connectivity to validate.');
-      return;
+  private *searchPathTask(
+    start: RouteEndpoint,
+    end: RouteEndpoint,
+    algorithm: SearchAlgorithm,
+    edgeCost?: (fromId: string, toId: string, weight: number) => number,
+    departureTime?: Date
+  ): RouteTask<string[] | null> {
+    const graph = this.getCompactGraph();
+    const { ids, offsets, targets, weights, edgeWayIds } = graph;
+    const nodeCount = graph.nodeCount;
+
+    const departure = departureTime ? departureTime.getTime() : Date.now();
+    const trafficProfile = departureTime ? this.trafficProfile : null;
+    // Partial edges are slowed down by traffic like whole ones, at the time they're driven
+    const partialCost = (cost: number, edge: [string, string] | undefined, time: number) =>
+      trafficProfile && edge ? cost / this.getEdgeTrafficMultiplier(edge[0], edge[1], new Date(time)) : cost;
+
+    const sources = this.getEndpointLinks(start, 'start', edgeCost, departure)
+      .map(link => ({ node: graph.indexOf(link.nodeId), cost: partialCost(link.cost, link.edge, departure) }))
+      .filter(link => link.node >= 0);
+    // Node index -> the partial edge from the node to the end
+    const sinks = new Map<number, { cost: number; edge?: [string, string] }>();
+    this.getEndpointLinks(end, 'end', edgeCost, departure).forEach(link => {
+      const node = graph.indexOf(link.nodeId);
+      if (node >= 0) sinks.set(node, link);
+    });
+
+    // Both on the same edge: driving straight there is a path through no node at all
+    const direct = this.getDirectCost(start, end, edgeCost);
+    let bestCost = partialCost(direct.cost, direct.edge, departure);
+    let bestState = bestCost < Infinity ? -2 : -1;
+    if (sources.length === 0 || sinks.size === 0) {
+      return bestState === -2 ? [] : null;
     }
 
-    const visited = new Set<string>();
-    const queue: string[] = [];
-    const startNodeId = Object.keys(this.nodes)[0];
+    const startPoint = typeof start === 'string' ? graph.getPoint(sources[0].node) : start.point;
+    const endPoint = typeof end === 'string' ? graph.getPoint(graph.indexOf(end)) : end.point;
+    const totalDistance = this.calculateDistance(startPoint, endPoint);
+    let closestDistance = totalDistance;
+    // Dijkstra is A* with a zero heuristic
+    const estimate = algorithm === 'astar'
+      ? (node: number) => this.heuristic(graph.getPoint(node), endPoint)
+      : () => 0;
+
+    // A search state is the node index, or nodeCount + prev * nodeCount + node at via
+    // nodes of turn restrictions
+    const restrictedVia = this.getRestrictedViaMask(graph);
+    const stateKey = (node: number, prev: number) =>
+      prev >= 0 && restrictedVia[node] ? nodeCount + prev * nodeCount + node : node;
+    const stateNode = (state: number) => state < nodeCount ? state : (state - nodeCount) % nodeCount;
+    const hasClosures = Object.keys(this.closedEdges).length > 0;
+
+    const distances = new Map<number, number>(); // Stores shortest known time from start to state
+    const previous = new Map<number, number>(); // Stores previous state in shortest path, -1 at the start
+    const closed = new Set<number>();
+
+    // Min-heap of states keyed by time so far plus the heuristic estimate to the end
+    const priorityQueue = new PriorityQueue<number>();
+
+    sources.forEach(({ node, cost }) => {
+      if (cost < (distances.get(node) ?? Infinity)) {
+        distances.set(node, cost);
+        previous.set(node, -1);
+        priorityQueue.enqueue([cost + estimate(node), node]);
+      }
+    });
 
-    if (!startNodeId) { // Handle case where there are no nodes at all (e.g. empty data)
-      console.warn('No start node to validate graph connectivity.');
-      return;
-    }
+    let nodesProcessed = 0;
 
-    // Start a BFS/DFS from an arbitrary node to find all reachable nodes
-    queue.push(startNodeId);
-    visited.add(startNodeId);
+    while (!priorityQueue.isEmpty()) {
+      const [priority, currentState] = priorityQueue.dequeue()!;
+
+      // Nothing left in the queue can beat the best way to the end found so far
+      if (priority >= bestCost) {
+        break;
+      }
+      // Skip stale queue entries for states that were already settled
+      if (closed.has(currentState)) {
+        continue;
+      }
+      closed.add(currentState);
+      const current = stateNode(currentState);
+      const previousState = previous.get(currentState)!;
+      const prev = previousState >= 0 ? stateNode(previousState) : -1;
+
+      nodesProcessed++;
+      if (nodesProcessed % 1000 === 0) {
+        console.log(`${algorithm}: Processed ${nodesProcessed} nodes, current node: ${ids[current]}`);
+      }
+      if (nodesProcessed % SEARCH_PROGRESS_STEP === 0) {
+        closestDistance = Math.min(closestDistance, this.calculateDistance(graph.getPoint(current), endPoint));
+        yield { stage: 'search', completed: totalDistance - closestDistance, total: totalDistance };
+      }
 
-    while (queue.length > 0) {
-      const currentId = queue.shift()!;
-      const currentNode = this.nodes[currentId];
+      const currentDistance = distances.get(currentState)!;
 
-      // It's possible currentNode might be undefined if `startNodeId` was removed by another process
-      if (!currentNode) continue; 
+      const arrival = departureTime ? departureTime.getTime() + currentDistance * 1000 : Date.now();
 
-      for (const neighborId in currentNode.neighbors) {
-        if (!visited.has(neighborId)) {
-          visited.add(neighborId);
-          queue.push(neighborId);
-        }
+      // Reaching a node next to the end leaves only its partial edge to drive
+      const sink = sinks.get(current);
+      const sinkCost = sink ? partialCost(sink.cost, sink.edge, arrival) : Infinity;
+      if (currentDistance + sinkCost < bestCost) {
+        bestCost = currentDistance + sinkCost;
+        bestState = currentState;
       }
-    }
 
-    // Identify and remove isolated nodes (nodes not reachable from the startNodeId)
-    const isolatedNodes = Object.keys(this.nodes).filter(id => !visited.has(id));
-    isolatedNodes.forEach(id => {
-      delete this.nodes[id];
-      // Also remove any references to these isolated nodes from other nodes' neighbors
-      Object.values(this.nodes).forEach(node => {
-        if (node.neighbors[id]) {
-          delete node.neighbors[id];
+      for (let edge = offsets[current]; edge < offsets[current + 1]; edge++) {
+        const neighbor = targets[edge];
+        if (prev >= 0 && restrictedVia[current] && !this.isTurnAllowed(ids[prev], ids[current], ids[neighbor])) continue;
+
+        const neighborState = stateKey(neighbor, current);
+        if (closed.has(neighborState)) continue;
+
+        const closureFactor = hasClosures ? this.getEdgeClosureFactor(ids[current], ids[neighbor], arrival) : 1;
+        if (closureFactor === Infinity) continue;
+
+        const weight = weights[edge];
+        let cost = (edgeCost ? edgeCost(ids[current], ids[neighbor], weight) : weight) * closureFactor;
+        if (trafficProfile) {
+          const way = this.osmWays[edgeWayIds[edge]];
+          if (way) cost /= getTrafficMultiplier(trafficProfile, way, new Date(arrival));
         }
-      });
-    });
+        const newDistance = currentDistance + cost;
 
-    if (isolatedNodes.length > 0) {
-      console.warn(`Removed ${isolatedNodes.length} isolated nodes from the graph.`);
+        if (newDistance < (distances.get(neighborState) ?? Infinity)) {
+          distances.set(neighborState, newDistance);
+          previous.set(neighborState, currentState);
+          priorityQueue.enqueue([newDistance + estimate(neighbor), neighborState]);
+        }
+      }
     }
 
-    // Check if the graph is too sparse. Average degree is a rough indicator.
-    const totalNodes = Object.keys(this.nodes).length;
-    // Calculate total edges correctly (each edge counted once for undirected, twice for directed)
-    // Here, we're building a directed graph so sum all neighbor counts
-    const totalEdges = Object.values(this.nodes).reduce((sum, node) => sum + Object.keys(node.neighbors).length, 0); 
-    const averageDegree = totalNodes > 0 ? totalEdges / totalNodes : 0;
+    if (bestState === -1) return null;
 
-    if (averageDegree < 1.5 && totalNodes > 10) { // Only warn for non-trivial graphs
-      console.warn('Graph is too sparse, may not provide good pathfinding results. Average degree:', averageDegree.toFixed(2));
+    // Reconstruct the path from the best state back to a start state
+    const path: string[] = [];
+    for (let state = bestState; state >= 0; state = previous.get(state)!) {
+      path.unshift(ids[stateNode(state)]);
     }
+    return path;
   }
 
   /**
-   * Finds the nearest OSM node to a given point. Prioritizes nodes that are part of a way and have connections.
-   * @param point The reference point.
-   * @param searchRadius The initial search radius in meters.
-   * @returns The ID of the nearest OSM node, or null if none found.
+   * Task that computes distance, time and fare for a path of graph node IDs.
+   * @param path An array of node IDs.
+   * @param departureTime Departure time for the traffic profile.
+   * @param start The route's start; a snapped coordinate adds the partial edge to the path.
+   * @param end The route's end; a snapped coordinate adds the partial edge from the path.
+   * @returns The task; its result is the PathResult for the path.
    */
-  findNearestOsmNode(point: Point, searchRadius: number = 500): string | null {
-    if (!this.isInitialized || Object.keys(this.osmNodes).length === 0) {
-      console.warn('PathFinder not initialized or no OSM nodes available for nearest OSM node search.');
-      return null;
-    }
-
-    let nearestNodeId: string | null = null;
-    let minDistance = Infinity;
-
-    // Create a set of graph node IDs that are part of ways for quick lookup
-    const graphNodesInWays = new Set<string>();
-    Object.values(this.osmWays).forEach(way => {
-      way.nodes.forEach(nodeId => {
-        graphNodesInWays.add(`osm_${nodeId}`);
-      });
-    });
-
-    // Iteratively expand search radius if no suitable node is found
-    const radii = [searchRadius, searchRadius * 2, searchRadius * 4, Infinity];
-
-    for (const currentRadius of radii) {
-      nearestNodeId = null; // Reset for each radius attempt
-      minDistance = Infinity;
-
-      for (const osmNodeId in this.osmNodes) {
-        const osmNode = this.osmNodes[osmNodeId];
-        const graphNodeId = `osm_${osmNodeId}`;
-        const nodePoint = { latitude: osmNode.lat, longitude: osmNode.lon };
-        const distance = this.calculateDistance(point, nodePoint);
-
-        // Check if within current radius
-        if (distance <= currentRadius) {
-          // Prioritize nodes that are part of a way and have connections in the graph
-          const isConnected = this.getNodeConnections(graphNodeId) > 0;
-          const isInWay = graphNodesInWays.has(graphNodeId);
-
-          // We're looking for a connected node that is part of a road way.
-          // This makes the assumption that only nodes connected to roads are useful for navigation.
-          if (distance < minDistance && isConnected && isInWay) {
-            minDistance = distance;
-            nearestNodeId = graphNodeId;
-          }
-        }
-      }
-      if (nearestNodeId) {
-        console.log(`Nearest *connected* node found within ${currentRadius}m: ${nearestNodeId}`);
-        return nearestNodeId;
+  private *buildPathResultTask(path: string[], departureTime: Date, start?: RouteEndpoint, end?: RouteEndpoint): RouteTask<PathResult> {
+    const startSnap = typeof start === 'object' && start.position ? start : null;
+    const endSnap = typeof end === 'object' && end.position ? end : null;
+
+    // Partial edges between the snapped coordinates and the path, or between each other
+    const routePath = this.extendPath(path, startSnap?.position, endSnap?.position);
+    let startPartial = { distance: 0, time: 0 };
+    if (path.length === 0) {
+      if (startSnap && endSnap) {
+        startPartial = this.getPartialTravel(routePath[0], routePath[1], startSnap.point, endSnap.point, departureTime);
       }
+    } else if (startSnap && routePath[0] !== path[0]) {
+      startPartial = this.getPartialTravel(routePath[0], path[0], startSnap.point, this.graph.getNodePoint(path[0])!, departureTime);
     }
 
-    // If still no node found, this means no *connected* node was found.
-    console.warn(`No suitable (connected and in-way) OSM node found near point [${point.latitude}, ${point.longitude}] after multiple radius attempts.`);
-    // As a last resort, if no connected node is found, try to find *any* node within graph that's closest.
-    // This might lead to paths that start/end in "disconnected" segments, but ensures a result if possible.
-    if (!nearestNodeId) {
-      console.warn('Attempting to find the absolute nearest graph node regardless of connectivity.');
-      minDistance = Infinity;
-      for (const graphNodeId in this.nodes) { // Iterate over graph nodes, not just osmNodes
-        const graphNode = this.nodes[graphNodeId];
-        const distance = this.calculateDistance(point, graphNode.point);
-        if (distance < minDistance) {
-          minDistance = distance;
-          nearestNodeId = graphNodeId;
-        }
-      }
-      if (nearestNodeId) {
-        console.warn(`Absolute nearest graph node found: ${nearestNodeId} (may not be connected to main road network)`);
-      }
+    // Measured along the detailed road geometry for accurate distances
+    const travel = yield* this.travelPathTask(path, new Date(departureTime.getTime() + startPartial.time * 1000));
+    let totalDistanceMeters = startPartial.distance + travel.distance; // meters
+    let totalEstimatedTimeSeconds = startPartial.time + travel.time; // seconds
+
+    const last = path[path.length - 1];
+    if (path.length > 0 && endSnap && routePath[routePath.length - 1] !== last) {
+      const endPartial = this.getPartialTravel(
+        last,
+        routePath[routePath.length - 1],
+        this.graph.getNodePoint(last)!,
+        endSnap.point,
+        new Date(departureTime.getTime() + totalEstimatedTimeSeconds * 1000)
+      );
+      totalDistanceMeters += endPartial.distance;
+      totalEstimatedTimeSeconds += endPartial.time;
     }
-    return nearestNodeId;
+
+    // Convert to kilometers and minutes for PathResult
+    const totalDistanceKm = totalDistanceMeters / 1000;
+    const totalEstimatedTimeMinutes = totalEstimatedTimeSeconds / 60;
+
+    return {
+      path,
+      distance: totalDistanceKm,
+      estimatedTime: totalEstimatedTimeMinutes,
+      fare: calculateFare(totalDistanceKm, this.tagTrip(path, startSnap?.point, endSnap?.point)),
+      startPoint: startSnap?.point,
+      endPoint: endSnap?.point,
+      startPosition: startSnap?.position,
+      endPosition: endSnap?.position,
+    };
   }
 
   /**
-   * Helper method to get the number of connections (neighbors) for a graph node.
-   * @param nodeId The ID of the graph node.
-   * @returns The number of outgoing connections from the node.
+   * Tags where a route starts and ends with its zones, for the fare.
+   * @param path The route's graph node IDs.
+   * @param startPoint The snapped start, if the route starts mid-segment.
+   * @param endPoint The snapped end, if the route ends mid-segment.
+   * @returns The zones, or undefined if the route has no points.
    */
-  private getNodeConnections(nodeId: string): number {
-    const node = this.nodes[nodeId];
-    return node ? Object.keys(node.neighbors).length : 0;
+  private tagTrip(path: string[], startPoint?: Point, endPoint?: Point): TripZones | undefined {
+    const start = startPoint ?? this.graph.getNodePoint(path[0]);
+    const end = endPoint ?? this.graph.getNodePoint(path[path.length - 1]);
+    if (!start || !end) return undefined;
+    return { pickup: this.serviceZones.tag(start), dropoff: this.serviceZones.tag(end) };
   }
 
   /**
-   * Finds the shortest path between two nodes using Dijkstra's algorithm.
-   * The 'weight' of edges is time in seconds, so it finds the fastest path.
-   * @param startId The ID of the starting node.
-   * @param endId The ID of the ending node.
-   * @returns A PathResult object if a path is found, otherwise null.
+   * Distance and time driven between two points on the same edge, at the road's speed
+   * and traffic like `calculateEstimatedTime`.
+   * @param fromId The edge node the vehicle drives away from.
+   * @param toId The edge node it drives toward.
+   * @param from Where the vehicle enters the part of the edge.
+   * @param to Where it leaves it.
+   * @param time When the part of the edge is driven, for the traffic profile.
+   * @returns The distance in meters and the time in seconds.
    */
-  findShortestPath(startId: string, endId: string): PathResult | null {
-    if (!this.isInitialized) {
-      console.error('PathFinder not initialized. Call fetchRoadNetwork first.');
-      return null;
-    }
-    if (!this.nodes[startId] || !this.nodes[endId]) {
-      console.error('Start or end node not found in graph:', { startId, endId });
-      return null;
-    }
-
-    const distances: { [key: string]: number } = {}; // Stores shortest time from start to node
-    const previous: { [key: string]: string | null } = {}; // Stores previous node in shortest path
-    
-    // Priority queue to efficiently get the node with the smallest distance
-    // Stores [distance, nodeId] tuples, ordered by distance
-    const priorityQueue = new this.PriorityQueue<[number, string]>((a, b) => a[0] - b[0]);
+  private getPartialTravel(fromId: string, toId: string, from: Point, to: Point, time: Date): { distance: number; time: number } {
+    const distance = this.calculateDistance(from, to);
+    const way = this.findConnectingWay(fromId, toId);
+    const speedMps = (way ? this.getSpeedLimit(way.tags) : getProfileSpeed(this.profile, undefined)) * 1000 / 3600;
+    if (speedMps <= 0) return { distance, time: Infinity };
+    return { distance, time: distance / speedMps / this.getEdgeTrafficMultiplier(fromId, toId, time) };
+  }
 
-    // Initialize distances and previous nodes
-    for (const nodeId in this.nodes) {
-      distances[nodeId] = Infinity;
-      previous[nodeId] = null;
+  /**
+   * Sums the search cost along a path: travel time in seconds unless a cost override is given.
+   */
+  private calculatePathCost(path: string[], edgeCost?: (fromId: string, toId: string, weight: number) => number): number {
+    let cost = 0;
+    for (let i = 0; i < path.length - 1; i++) {
+      const weight = this.getEdgeWeight(path[i], path[i + 1]);
+      if (weight === undefined) return Infinity;
+      cost += edgeCost ? edgeCost(path[i], path[i + 1], weight) : weight;
     }
-    distances[startId] = 0;
-    priorityQueue.enqueue([0, startId]);
+    return cost;
+  }
 
-    let nodesProcessed = 0;
+  /**
+   * Adapts a public cost function to the search's edge cost callback.
+   */
+  private toEdgeCost(costFunction?: EdgeCostFunction) {
+    if (!costFunction) return undefined;
+    return (fromId: string, toId: string, weight: number) =>
+      costFunction(this.getEdgeInfo(fromId, toId, weight));
+  }
 
-    while (!priorityQueue.isEmpty()) {
-      const [currentDistance, currentId] = priorityQueue.dequeue()!;
+  /**
+   * Describes a graph edge for cost functions.
+   */
+  private getEdgeInfo(fromId: string, toId: string, weight: number): EdgeInfo {
+    const wayId = this.getEdgeWayId(fromId, toId);
+    return {
+      fromId,
+      toId,
+      travelTime: weight,
+      distance: this.calculateDistance(this.graph.getNodePoint(fromId)!, this.graph.getNodePoint(toId)!),
+      tags: wayId !== undefined ? this.osmWays[wayId]?.tags ?? null : null,
+    };
+  }
 
-      // Optimization: if we've already found a shorter path to currentId, skip
-      if (currentDistance > distances[currentId]) {
-        continue;
-      }
+  /**
+   * Gets the directed edges of a path as 'from|to' keys.
+   */
+  private getPathEdges(path: string[]): Set<string> {
+    const edges = new Set<string>();
+    for (let i = 0; i < path.length - 1; i++) {
+      edges.add(`${path[i]}|${path[i + 1]}`);
+    }
+    return edges;
+  }
 
-      nodesProcessed++;
-      if (nodesProcessed % 1000 === 0) {
-        console.log(`Dijkstra: Processed ${nodesProcessed} nodes, current node: ${currentId}`);
-      }
+  /**
+   * Sums the straight-line length in meters of a set of 'from|to' edges.
+   */
+  private calculateEdgeLength(edges: Set<string>): number {
+    let length = 0;
+    edges.forEach(edge => {
+      const [fromId, toId] = edge.split('|');
+      const from = this.graph.getNodePoint(fromId);
+      const to = this.graph.getNodePoint(toId);
+      if (from && to) length += this.calculateDistance(from, to);
+    });
+    return length;
+  }
 
-      // If we reached the end node, reconstruct the path
-      if (currentId === endId) {
-        const path = this.reconstructPath(previous, endId);
-        
-        // Use detailed path coordinates for accurate distance and time calculation
-        const detailedPathCoords = this.getDetailedPathCoordinates(path);
-        const totalDistanceMeters = this.calculatePathDistance(detailedPathCoords); // meters
-        const totalEstimatedTimeSeconds = this.calculateEstimatedTime(detailedPathCoords); // seconds
-
-        // Convert to kilometers and minutes for PathResult
-        const totalDistanceKm = totalDistanceMeters / 1000;
-        const totalEstimatedTimeMinutes = totalEstimatedTimeSeconds / 60;
-
-        const fare = this.calculateFare(totalDistanceKm);
-
-        console.log(`Path found from ${startId} to ${endId}. Distance: ${totalDistanceKm.toFixed(2)} km, Estimated Time: ${totalEstimatedTimeMinutes.toFixed(2)} mins, Fare: ₱${fare.toFixed(2)}`);
-        return { 
-          path, 
-          distance: totalDistanceKm, 
-          estimatedTime: totalEstimatedTimeMinutes, 
-          fare 
-        };
-      }
+  /**
+   * Generates turn-by-turn maneuvers for a path, see utils/maneuvers.
+   * @param path An array of node IDs representing the path.
+   * @param options The destination coordinate and name, to describe the arrival.
+   * @returns The maneuvers, from departure to arrival.
+   */
+  getManeuvers(path: string[], options: ManeuverOptions = {}): Maneuver[] {
+    return generateManeuvers(this, path, options);
+  }
 
-      const currentNode = this.nodes[currentId];
-      // It's possible `currentNode` could be undefined if it was an isolated node removed by validation
-      if (!currentNode) continue;
+  /**
+   * Gets the graph nodes a route drives through, including the far node of a partially
+   * driven first or last edge, so its geometry and maneuvers cover the whole road driven.
+   * @param result A route from `findShortestPath`, `findAlternativePaths` or `findPathThroughWaypoints`.
+   * @returns The node IDs, from the node behind the pickup to the node past the dropoff.
+   */
+  getRoutePath(result: PathResult): string[] {
+    return this.extendPath(result.path, result.startPosition, result.endPosition);
+  }
 
-      for (const neighborId in currentNode.neighbors) {
-        const weight = currentNode.neighbors[neighborId];
-        const newDistance = distances[currentId] + weight;
+  /**
+   * Adds the far nodes of partially driven first and last edges to a path, see `getRoutePath`.
+   */
+  private extendPath(path: string[], start?: RoadPosition, end?: RoadPosition): string[] {
+    if (path.length === 0) {
+      // Pickup and dropoff on the same road, possibly matched to opposite directions of it
+      if (!start || !end) return [];
+      const endFraction = end.fromId === start.fromId ? end.fraction : 1 - end.fraction;
+      return endFraction >= start.fraction ? [start.fromId, start.toId] : [start.toId, start.fromId];
+    }
 
-        if (newDistance < distances[neighborId]) {
-          distances[neighborId] = newDistance;
-          previous[neighborId] = currentId;
-          priorityQueue.enqueue([newDistance, neighborId]);
-        }
-      }
+    const routePath = [...path];
+    if (start && (path[0] === start.toId ? start.fraction < 1 : start.fraction > 0)) {
+      routePath.unshift(path[0] === start.toId ? start.fromId : start.toId);
     }
+    const last = path[path.length - 1];
+    if (end && (last === end.fromId ? end.fraction > 0 : end.fraction < 1)) {
+      routePath.push(last === end.fromId ? end.toId : end.fromId);
+    }
+    return routePath;
+  }
 
-    console.warn('No path found between nodes:', startId, 'to', endId);
-    return null;
+  /**
+   * Gets the road geometry of a route, starting and ending at the snapped coordinates when
+   * it runs between points mid-segment.
+   * @param result A route from `findShortestPath`, `findAlternativePaths` or `findPathThroughWaypoints`.
+   * @returns The coordinates to draw, from the pickup to the dropoff.
+   */
+  getRouteCoordinates(result: PathResult): Point[] {
+    const coordinates = this.getDetailedPathCoordinates(this.getRoutePath(result));
+    if (coordinates.length === 0) return coordinates;
+    if (result.startPoint) coordinates[0] = result.startPoint;
+    if (result.endPoint) coordinates[coordinates.length - 1] = result.endPoint;
+    return coordinates;
   }
 
   /**
-   * Reconstructs the path from the `previous` map generated by Dijkstra's algorithm.
-   * @param cameFrom A map where keys are node IDs and values are the ID of the preceding node in the shortest path.
-   * @param currentId The ID of the destination node.
-   * @returns An array of node IDs representing the shortest path.
+   * Generates turn-by-turn maneuvers for a route. When the route runs between snapped
+   * coordinates the maneuvers depart and arrive there. Geometry indices refer to
+   * `getRouteCoordinates(result)`.
+   * @param result A route from `findShortestPath`, `findAlternativePaths` or `findPathThroughWaypoints`.
+   * @param options The destination coordinate and name, to describe the arrival.
+   * @returns The maneuvers, from departure to arrival.
    */
-  private reconstructPath(cameFrom: { [key: string]: string | null }, currentId: string): string[] {
-    const path: string[] = [];
-    let current: string | null = currentId;
-    while (current !== null) {
-      path.unshift(current);
-      current = cameFrom[current];
-    }
-    return path;
+  getRouteManeuvers(result: PathResult, options: ManeuverOptions = {}): Maneuver[] {
+    return generateManeuvers(this, this.getRoutePath(result), {
+      ...options,
+      start: result.startPoint,
+      end: result.endPoint,
+    });
   }
 
   /**
-   * Calculates the fare based on the total distance.
-   * @param distance The total distance in kilometers.
-   * @returns The calculated fare in local currency.
+   * Generates turn-by-turn instructions for a path.
+   * @param path An array of node IDs representing the path.
+   * @returns The instructions, from departure to arrival.
    */
-  private calculateFare(distance: number): number {
-    if (distance <= this.BASE_KM) {
-      return this.BASE_FARE;
-    } else {
-      return this.BASE_FARE + (distance - this.BASE_KM) * this.RATE_PER_KM;
-    }
+  getInstructions(path: string[]): string[] {
+    return this.getManeuvers(path).map(maneuver => maneuver.instruction);
   }
 
   /**
@@ -643,7 +1941,7 @@ class PathFinder {
    */
   getPathCoordinates(path: string[]): Point[] {
     return path
-      .map((nodeId) => this.nodes[nodeId]?.point)
+      .map((nodeId) => this.graph.getNodePoint(nodeId))
       .filter((point) => point !== undefined) as Point[];
   }
 
@@ -662,16 +1960,16 @@ class PathFinder {
       const currentId = path[i];
       const nextId = path[i + 1];
       
-      const currentNode = this.nodes[currentId];
-      const nextNode = this.nodes[nextId];
+      const currentPoint = this.graph.getNodePoint(currentId);
+      const nextPoint = this.graph.getNodePoint(nextId);
 
-      if (!currentNode || !nextNode) {
+      if (!currentPoint || !nextPoint) {
         console.warn(`Missing node in path details: ${currentId} or ${nextId}`);
         continue;
       }
 
       // Add the current point
-      detailedPath.push(currentNode.point);
+      detailedPath.push(currentPoint);
       
       // Find the OSM way that connects these two graph nodes
       // This is crucial for getting all intermediate points along a road segment
@@ -684,17 +1982,26 @@ class PathFinder {
     
     // Add the final point of the last segment
     if (path.length > 0) {
-      const lastNode = this.nodes[path[path.length - 1]];
-      if (lastNode) {
-        detailedPath.push(lastNode.point);
+      const lastPoint = this.graph.getNodePoint(path[path.length - 1]);
+      if (lastPoint) {
+        detailedPath.push(lastPoint);
       }
     }
     
-    // Optional: Smooth the path further (e.g., remove redundant collinear points)
-    // return this.smoothPath(detailedPath); 
+    // Full detail; simplify for drawing with getPathLevelsOfDetail
     return detailedPath;
   }
 
+  /**
+   * Gets the OSM way an edge of the graph belongs to.
+   * @param fromId The ID of the edge's start node.
+   * @param toId The ID of the edge's end node.
+   * @returns The OSMWay, or null for manually added edges.
+   */
+  public getEdgeWay(fromId: string, toId: string): OSMWay | null {
+    return this.findConnectingWay(fromId, toId);
+  }
+
   /**
    * Finds the OSM way that connects two given graph nodes.
    * It looks for a way that contains both the start and end OSM nodes.
@@ -709,11 +2016,12 @@ class PathFinder {
 
     if (isNaN(osmId1) || isNaN(osmId2)) return null;
 
-    // Check if the graph nodes exist to get their points
-    const graphNode1 = this.nodes[node1Id];
-    const graphNode2 = this.nodes[node2Id];
+    // Check if the graph nodes exist
+    if (!this.graph.hasNode(node1Id) || !this.graph.hasNode(node2Id)) return null;
 
-    if (!graphNode1 || !graphNode2) return null;
+    const wayId = this.getEdgeWayId(node1Id, node2Id);
+    const indexedWay = wayId !== undefined ? this.osmWays[wayId] : undefined;
+    if (indexedWay) return indexedWay;
 
     for (const way of Object.values(this.osmWays)) {
       // Check if both OSM node IDs are present in the way's nodes array
@@ -779,143 +2087,313 @@ class PathFinder {
   }
 
   /**
-   * Calculates the estimated time to traverse a path defined by a series of geographical points.
-   * It estimates time based on road types and their default speeds.
-   * @param points An array of Point objects.
-   * @returns The total estimated time in seconds.
+   * Task that drives a path edge by edge: its length along the detailed road geometry and
+   * its time at the profile's road speeds, slowed down by the traffic profile at the time
+   * each edge is reached. Routing penalties are preferences, not slower roads, so they are
+   * left out.
+   * @param path An array of node IDs.
+   * @param departureTime Departure time for the traffic profile.
+   * @returns The task; its result is the distance in meters and the time in seconds.
    */
-  private calculateEstimatedTime(points: Point[]): number {
+  private *travelPathTask(path: string[], departureTime: Date): RouteTask<{ distance: number; time: number }> {
+    let totalDistanceMeters = 0;
     let totalTimeSeconds = 0;
-    for (let i = 0; i < points.length - 1; i++) {
-      const distanceMeters = this.calculateDistance(points[i], points[i + 1]);
-      
-      // Attempt to find the road type for this segment
-      // This is an approximation as a direct line between points might span multiple ways
-      const roadType = this.findRoadTypeBetweenPoints(points[i], points[i + 1]);
-      const speedLimitKmH = this.DEFAULT_SPEEDS[roadType] || this.AVERAGE_SPEED_KMH;
-      
-      const speedLimitMps = speedLimitKmH * 1000 / 3600; // meters per second
-      
-      if (speedLimitMps > 0) {
-        totalTimeSeconds += distanceMeters / speedLimitMps;
-      } else {
-        totalTimeSeconds += Infinity; // Effectively an impassable segment
+    for (let i = 0; i < path.length - 1; i++) {
+      if (i > 0 && i % ROUTE_PROGRESS_STEP === 0) {
+        yield { stage: 'route', completed: i, total: path.length - 1 };
+      }
+
+      const segment = this.getDetailedPathCoordinates([path[i], path[i + 1]]);
+      const distanceMeters = this.calculatePathDistance(segment);
+      totalDistanceMeters += distanceMeters;
+      if (totalTimeSeconds === Infinity) continue; // Past an impassable segment only the distance adds up
+
+      const way = this.findConnectingWay(path[i], path[i + 1]);
+      const speedLimitMps = (way ? this.getSpeedLimit(way.tags) : getProfileSpeed(this.profile, undefined)) * 1000 / 3600;
+      if (speedLimitMps <= 0) {
+        totalTimeSeconds = Infinity; // Effectively an impassable segment
+        continue;
       }
+
+      const multiplier = this.getEdgeTrafficMultiplier(
+        path[i],
+        path[i + 1],
+        new Date(departureTime.getTime() + totalTimeSeconds * 1000)
+      );
+      totalTimeSeconds += distanceMeters / speedLimitMps / multiplier;
     }
-    return totalTimeSeconds;
+    return { distance: totalDistanceMeters, time: totalTimeSeconds };
   }
 
   /**
-   * Finds the road type for a segment defined by two points.
-   * This is a heuristic and might not be perfectly accurate if points are not directly on a single way.
-   * It prioritizes ways that contain both points.
-   * @param point1 The first point.
-   * @param point2 The second point.
-   * @returns The highway tag of the road type, or 'unclassified' if not found.
+   * Traffic speed multiplier of an edge at a given time; 1 without a traffic profile.
    */
-  private findRoadTypeBetweenPoints(point1: Point, point2: Point): string {
-    // A small epsilon for floating point comparison of coordinates
-    const EPSILON = 0.00001; 
+  private getEdgeTrafficMultiplier(fromId: string, toId: string, time: Date): number {
+    if (!this.trafficProfile) return 1;
+    const wayId = this.getEdgeWayId(fromId, toId);
+    const way = wayId !== undefined ? this.osmWays[wayId] : undefined;
+    return way ? getTrafficMultiplier(this.trafficProfile, way, time) : 1;
+  }
 
-    for (const way of Object.values(this.osmWays)) {
-      if (!way.tags.highway) continue;
+  /**
+   * Gets the free-flow travel time of an edge.
+   * @returns The weight in seconds, or undefined if there is no such edge.
+   */
+  private getEdgeWeight(fromId: string, toId: string): number | undefined {
+    const edge = this.graph.findEdge(fromId, toId);
+    return edge >= 0 ? this.graph.weights[edge] : undefined;
+  }
 
-      // Check if both points correspond to nodes within this way
-      let foundPoint1InWay = false;
-      let foundPoint2InWay = false;
+  /**
+   * Gets the OSM way of an edge.
+   * @returns The way ID, or undefined if there is no such edge or it was added manually.
+   */
+  private getEdgeWayId(fromId: string, toId: string): number | undefined {
+    const edge = this.graph.findEdge(fromId, toId);
+    return edge >= 0 && !isNaN(this.graph.edgeWayIds[edge]) ? this.graph.edgeWayIds[edge] : undefined;
+  }
 
-      for (const nodeId of way.nodes) {
-        const osmNode = this.osmNodes[nodeId];
-        if (osmNode) {
-          if (Math.abs(osmNode.lat - point1.latitude) < EPSILON && Math.abs(osmNode.lon - point1.longitude) < EPSILON) {
-            foundPoint1InWay = true;
-          }
-          if (Math.abs(osmNode.lat - point2.latitude) < EPSILON && Math.abs(osmNode.lon - point2.longitude) < EPSILON) {
-            foundPoint2InWay = true;
-          }
-        }
-        if (foundPoint1InWay && foundPoint2InWay) {
-          return way.tags.highway;
+  /**
+   * Cost multiplier of an edge from the road closures active at a given time.
+   * @returns 1 when no closure applies, Infinity when the edge is closed.
+   */
+  private getEdgeClosureFactor(fromId: string, toId: string, time: number): number {
+    const closureIds = this.closedEdges[`${fromId}|${toId}`];
+    if (!closureIds) return 1;
+
+    let factor = 1;
+    for (const closureId of closureIds) {
+      const closure = this.closures[closureId];
+      if (!isClosureActive(closure, new Date(time))) continue;
+      if (closure.kind === 'closed') return Infinity;
+      factor = Math.max(factor, closure.penalty ?? DEFAULT_AVOID_PENALTY);
+    }
+    return factor;
+  }
+
+  /**
+   * Records which graph edges a closure covers: every edge of its ways and every
+   * edge touching its polygon.
+   */
+  private indexClosure(closure: RoadClosure): void {
+    const wayIds = new Set(closure.wayIds ?? []);
+    let edgeCount = 0;
+
+    const { ids, offsets, targets, edgeWayIds } = this.graph;
+    for (let node = 0; node < this.graph.nodeCount; node++) {
+      for (let edge = offsets[node]; edge < offsets[node + 1]; edge++) {
+        const neighbor = targets[edge];
+        const edgeKey = `${ids[node]}|${ids[neighbor]}`;
+        const onWay = wayIds.has(edgeWayIds[edge]);
+        if (onWay || (closure.polygon && segmentTouchesPolygon(this.graph.getPoint(node), this.graph.getPoint(neighbor), closure.polygon))) {
+          (this.closedEdges[edgeKey] ??= []).push(closure.id);
+          edgeCount++;
         }
       }
     }
-    return 'unclassified';
+
+    console.log(`Road closure ${closure.id} covers ${edgeCount} edges`);
+  }
+
+  private notifyClosuresChanged(): void {
+    const closures = this.getClosures();
+    this.closureListeners.forEach(listener => listener(closures));
+  }
+
+  /**
+   * Adds a road closure or avoid area, replacing any closure with the same ID. Takes
+   * effect for the next search; the graph is not rebuilt.
+   * @param closure The closure.
+   */
+  public addClosure(closure: RoadClosure): void {
+    if (this.closures[closure.id]) {
+      this.removeClosureEdges(closure.id);
+    }
+    this.closures[closure.id] = closure;
+    this.indexClosure(closure);
+    this.notifyClosuresChanged();
+  }
+
+  /**
+   * Removes a road closure.
+   * @param closureId The ID of the closure.
+   * @returns True if the closure existed.
+   */
+  public removeClosure(closureId: string): boolean {
+    if (!this.closures[closureId]) return false;
+    this.removeClosureEdges(closureId);
+    delete this.closures[closureId];
+    this.notifyClosuresChanged();
+    return true;
+  }
+
+  /**
+   * Replaces all road closures, e.g. with the list fetched from the server. Listeners
+   * are only notified when the set of closures actually changed.
+   * @param closures The closures now in effect or scheduled.
+   */
+  public setClosures(closures: RoadClosure[]): void {
+    const key = (list: RoadClosure[]) => JSON.stringify([...list].sort((a, b) => a.id.localeCompare(b.id)));
+    if (key(closures) === key(this.getClosures())) return;
+
+    this.closures = {};
+    this.closedEdges = {};
+    closures.forEach(closure => {
+      this.closures[closure.id] = closure;
+      this.indexClosure(closure);
+    });
+    this.notifyClosuresChanged();
+  }
+
+  private removeClosureEdges(closureId: string): void {
+    Object.keys(this.closedEdges).forEach(edgeKey => {
+      const remaining = this.closedEdges[edgeKey].filter(id => id !== closureId);
+      if (remaining.length > 0) {
+        this.closedEdges[edgeKey] = remaining;
+      } else {
+        delete this.closedEdges[edgeKey];
+      }
+    });
+  }
+
+  /**
+   * Gets all road closures, including scheduled and expired ones.
+   * @returns The closures.
+   */
+  public getClosures(): RoadClosure[] {
+    return Object.values(this.closures);
+  }
+
+  /**
+   * Gets the road closures in effect at a given time, e.g. to draw them on a map.
+   * @param time The time; defaults to now.
+   * @returns The active closures.
+   */
+  public getActiveClosures(time: Date = new Date()): RoadClosure[] {
+    return this.getClosures().filter(closure => isClosureActive(closure, time));
+  }
+
+  /**
+   * Registers a listener called whenever closures are added, removed or replaced, so
+   * screens can reroute trips in progress.
+   * @param listener Called with all closures.
+   * @returns A function that unregisters the listener.
+   */
+  public onClosuresChanged(listener: (closures: RoadClosure[]) => void): () => void {
+    this.closureListeners.push(listener);
+    return () => {
+      this.closureListeners = this.closureListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Coordinates of a way, e.g. to draw a closure given by way IDs.
+   * @param wayId The OSM way ID.
+   * @returns The way's points, empty if the way is not loaded.
+   */
+  public getWayCoordinates(wayId: number): Point[] {
+    const way = this.osmWays[wayId];
+    if (!way) return [];
+    return way.nodes
+      .map(nodeId => this.osmNodes[nodeId])
+      .filter(Boolean)
+      .map(node => ({ latitude: node.lat, longitude: node.lon }));
   }
 
-  // --- Path Smoothing and Heuristic (Currently not used in findShortestPath) ---
-  // These methods are present in the original code but not integrated into Dijkstra's for this example.
-  // They would be relevant for A* or post-processing for rendering.
+  // --- Path Smoothing and Heuristic ---
 
   /**
-   * Optimized heuristic function for A* algorithm (Manhattan distance).
-   * Not directly used in the current Dijkstra's implementation but useful for A*.
+   * Time-based heuristic for A*: straight-line (Haversine) distance divided by the
+   * fastest speed in the graph. It never overestimates the remaining travel time,
+   * so A* still returns the optimal path.
    * @param point1 The first point.
    * @param point2 The second point.
-   * @returns An estimated "cost" between the points.
+   * @returns A lower bound on the travel time between the points, in seconds.
    */
   private heuristic(point1: Point, point2: Point): number {
-    // This is a simple Manhattan distance on lat/lon, which is very fast but less accurate than Haversine.
-    // For A*, a more accurate heuristic like Haversine distance (converted to time) would be better.
-    const dx = Math.abs(point2.longitude - point1.longitude);
-    const dy = Math.abs(point2.latitude - point1.latitude);
-    return dx + dy;
+    const maxSpeedMps = this.maxSpeedKmh * 1000 / 3600;
+    return this.calculateDistance(point1, point2) / maxSpeedMps;
   }
 
   /**
-   * Path smoothing function. This is a post-processing step to simplify the path for rendering.
-   * Currently uses a simplified "line-of-sight" check.
-   * @param path The array of points representing the detailed path.
-   * @returns A simplified array of points.
+   * Simplifies a path for rendering with Douglas-Peucker: drops every point that lies
+   * within `tolerance` meters of the line between the points kept around it.
+   * @param path The detailed path coordinates.
+   * @param tolerance Maximum distance in meters between the path and its simplification.
+   * @param keepIndices Indices of points that are always kept, e.g. maneuver locations.
+   * @returns The simplified path; first and last points are always kept.
    */
-  private smoothPath(path: Point[]): Point[] {
-    if (path.length <= 2) return path;
+  public smoothPath(path: Point[], tolerance: number, keepIndices: number[] = []): Point[] {
+    if (path.length <= 2 || tolerance <= 0) return path;
+
+    // Local equirectangular projection in meters around the path's first point
+    const origin = path[0];
+    const metersPerDegreeLat = 111320;
+    const metersPerDegreeLon = 111320 * Math.cos(origin.latitude * Math.PI / 180);
+    const xs = path.map(point => (point.longitude - origin.longitude) * metersPerDegreeLon);
+    const ys = path.map(point => (point.latitude - origin.latitude) * metersPerDegreeLat);
+
+    const keep = new Uint8Array(path.length);
+    keep[0] = 1;
+    keep[path.length - 1] = 1;
+    keepIndices.forEach(index => {
+      if (index >= 0 && index < path.length) keep[index] = 1;
+    });
 
-    const smoothed: Point[] = [path[0]];
-    let currentIndex = 0;
+    // Simplify each stretch between forced points separately, without recursion
+    const anchors: number[] = [];
+    for (let i = 0; i < path.length; i++) {
+      if (keep[i]) anchors.push(i);
+    }
+    const stack: [number, number][] = [];
+    for (let i = 0; i < anchors.length - 1; i++) {
+      stack.push([anchors[i], anchors[i + 1]]);
+    }
 
-    while (currentIndex < path.length - 1) {
-      let furthestVisible = currentIndex + 1;
-      
-      // Look ahead to find the furthest point that has a "direct line of sight"
-      // This is a simplified check, a real one would involve checking for obstacles/roads between points.
-      for (let i = currentIndex + 2; i < path.length; i++) {
-        // A simple check could be if they are on the same road segment and close enough
-        // Or if there are no major turns/intersections between them
-        if (this.isLineOfSight(path[currentIndex], path[i])) {
-          furthestVisible = i;
+    const toleranceSquared = tolerance * tolerance;
+    while (stack.length > 0) {
+      const [first, last] = stack.pop()!;
+      const dx = xs[last] - xs[first];
+      const dy = ys[last] - ys[first];
+      const lengthSquared = dx * dx + dy * dy;
+
+      let maxDistanceSquared = 0;
+      let farthest = -1;
+      for (let i = first + 1; i < last; i++) {
+        // Squared distance from point i to the segment first-last
+        let t = lengthSquared > 0 ? ((xs[i] - xs[first]) * dx + (ys[i] - ys[first]) * dy) / lengthSquared : 0;
+        t = Math.max(0, Math.min(1, t));
+        const px = xs[first] + t * dx - xs[i];
+        const py = ys[first] + t * dy - ys[i];
+        const distanceSquared = px * px + py * py;
+        if (distanceSquared > maxDistanceSquared) {
+          maxDistanceSquared = distanceSquared;
+          farthest = i;
         }
       }
 
-      smoothed.push(path[furthestVisible]);
-      currentIndex = furthestVisible;
+      if (farthest !== -1 && maxDistanceSquared > toleranceSquared) {
+        keep[farthest] = 1;
+        stack.push([first, farthest], [farthest, last]);
+      }
     }
 
-    return smoothed;
+    return path.filter((_, index) => keep[index] === 1);
   }
 
   /**
-   * Placeholder for a line-of-sight check.
-   * In a real-world scenario, this would involve checking for geometric obstructions
-   * or if the segment between points is a continuous part of a single road.
-   * @param point1 The first point.
-   * @param point2 The second point.
-   * @returns True if a direct line of sight is considered to exist, false otherwise.
+   * Simplifies a path at several levels of detail, so the map can draw few vertices when
+   * zoomed out and full detail when zoomed in. Pick a level with `selectLevelOfDetail`.
+   * @param path The detailed path coordinates.
+   * @param keepIndices Indices of points kept at every level, e.g. maneuver locations.
+   * @returns The levels, most detailed first.
    */
-  private isLineOfSight(point1: Point, point2: Point): boolean {
-    // This is a very simplistic check. A true "line of sight" for road networks
-    // would mean checking if the two points lie on the same continuous road segment
-    // without any intersections or significant turns in between.
-    // For now, a short distance check and being on a similar road type could be a proxy.
-
-    const distance = this.calculateDistance(point1, point2);
-    // If points are very close, consider them in line of sight for smoothing purposes.
-    if (distance < 50) return true; // 50 meters
-
-    // More complex: check if they belong to the same 'way' in OSM.
-    // This requires iterating through OSM ways and checking if both points' corresponding OSM nodes are sequential in any way.
-    // This is computationally intensive for real-time smoothing and might be better handled by a different algorithm.
-    // For simplicity, we'll keep it basic for now.
-    return false; // By default, assume no direct line of sight for larger distances unless proven otherwise.
+  public getPathLevelsOfDetail(path: Point[], keepIndices: number[] = []): PathLevelOfDetail[] {
+    return LEVELS_OF_DETAIL.map(level => ({
+      maxLatitudeDelta: level.maxLatitudeDelta,
+      tolerance: level.tolerance,
+      coordinates: this.smoothPath(path, level.tolerance, keepIndices),
+    }));
   }
 
   /**
@@ -927,15 +2405,14 @@ class PathFinder {
     if (path.length < 2) return false;
 
     for (const nodeId of path) {
-      if (!this.nodes[nodeId]) {
+      if (!this.graph.hasNode(nodeId)) {
         console.error(`Invalid node in path: ${nodeId}`);
         return false;
       }
     }
 
     for (let i = 0; i < path.length - 1; i++) {
-      const currentNode = this.nodes[path[i]];
-      if (!currentNode || !currentNode.neighbors[path[i + 1]]) {
+      if (!this.getEdgeWeight(path[i], path[i + 1])) {
         console.error(`Path not connected between nodes ${path[i]} and ${path[i + 1]}`);
         return false;
       }
@@ -944,43 +2421,100 @@ class PathFinder {
   }
 
   /**
-   * Simple Priority Queue implementation for Dijkstra's algorithm.
-   * Stores elements as tuples [priority, value], ordered by priority.
+   * Switches the vehicle profile and rebuilds the graph edges from the loaded OSM data.
+   * Nodes added manually with `addNode` are dropped by the rebuild.
+   * @param profile The vehicle profile to route for.
    */
-  private PriorityQueue = class<T> {
-    private items: [number, T][] = [];
-    private compare: (a: [number, T], b: [number, T]) => number;
+  public async setVehicleProfile(profile: VehicleProfile): Promise<void> {
+    this.profile = profile;
+    // The search heuristic's top speed follows the profile, also before any roads are loaded
+    this.maxSpeedKmh = Math.max(...Object.values(profile.speeds));
+    if (Object.keys(this.osmWays).length === 0) return;
 
-    constructor(compare: (a: [number, T], b: [number, T]) => number) {
-      this.compare = compare;
-    }
+    await this.buildGraphFromOSM();
+  }
 
-    enqueue(item: [number, T]): void {
-      this.items.push(item);
-      this.items.sort(this.compare); // Simple sort, not optimized for large queues
-    }
+  /**
+   * Sets the executor graph building runs on, so loading a road network does not block
+   * the UI; the executor should be the one searches are posted to, so they never run on a
+   * half-built graph. Pass null to build in one go.
+   * @param executor The executor, e.g. `routeWorker.getExecutor()`.
+   */
+  public setExecutor(executor: RouteExecutor | null): void {
+    this.executor = executor;
+  }
 
-    dequeue(): [number, T] | undefined {
-      return this.items.shift();
-    }
+  /**
+   * Gets the vehicle profile the graph is built for.
+   * @returns The active VehicleProfile.
+   */
+  public getVehicleProfile(): VehicleProfile {
+    return this.profile;
+  }
 
-    isEmpty(): boolean {
-      return this.items.length === 0;
-    }
+  /**
+   * Sets the time-of-day traffic profile used for routing and estimated times.
+   * Edge weights stay free-flow, so no graph rebuild is needed.
+   * @param profile The profile, e.g. from `loadTrafficProfile`, or null to ignore traffic.
+   */
+  public setTrafficProfile(profile: TrafficProfile | null): void {
+    this.trafficProfile = profile;
+  }
 
-    size(): number {
-      return this.items.length;
-    }
-  };
+  /**
+   * Gets the active traffic profile.
+   * @returns The TrafficProfile, or null if traffic is ignored.
+   */
+  public getTrafficProfile(): TrafficProfile | null {
+    return this.trafficProfile;
+  }
+
+  /**
+   * Sets the zones routes are priced with. Fares of routes already found are not changed.
+   * @param zones The zones, e.g. from `loadServiceZones` with an updated franchise map.
+   */
+  public setServiceZones(zones: ZoneIndex): void {
+    this.serviceZones = zones;
+  }
+
+  /**
+   * Gets the zones routes are priced with.
+   * @returns The ZoneIndex; the bundled Naga City zones unless replaced.
+   */
+  public getServiceZones(): ZoneIndex {
+    return this.serviceZones;
+  }
 
   // --- Public Getters for Debugging/External Access (Use with caution) ---
 
   /**
-   * Gets the internal graph nodes.
-   * @returns An object containing all GraphNode objects.
+   * Gets the road graph in compressed sparse row form. It is replaced, never changed, when
+   * tiles are loaded or evicted, so hold on to it only for one task.
+   * @returns The CompactGraph.
+   */
+  public getCompactGraph(): CompactGraph {
+    return this.graph;
+  }
+
+  /**
+   * Gets the spatial index of the graph for nearest-node and nearest-edge queries. It is
+   * built on first use after the graph changes.
+   * @returns The SpatialIndex.
+   */
+  public getSpatialIndex(): SpatialIndex {
+    if (this.spatialIndex?.graph !== this.graph) {
+      this.spatialIndex = SpatialIndex.build(this.graph);
+    }
+    return this.spatialIndex;
+  }
+
+  /**
+   * Task that indexes the graph after it changed, so the first snap afterwards doesn't
+   * index it on the UI thread. Does nothing if the index is up to date.
    */
-  public getNodes() {
-    return this.nodes;
+  private *indexGraphTask(): RouteTask<void> {
+    if (this.spatialIndex?.graph === this.graph) return;
+    this.spatialIndex = yield* SpatialIndex.buildTask(this.graph);
   }
 
   /**
@@ -998,9 +2532,38 @@ class PathFinder {
   public getOsmWays() {
     return this.osmWays;
   }
+
+  /**
+   * Gets the named POIs, address nodes and barangay places of the loaded area.
+   * @returns An object containing the place nodes with their tags.
+   */
+  public getPlaces() {
+    return this.places;
+  }
 }
 
-export { PathFinder, Point, GraphNode, PathResult };
+export {
+  PathFinder,
+  calculateFare,
+  TripZones,
+  selectLevelOfDetail,
+  Point,
+  OSMNode,
+  OSMWay,
+  PathResult,
+  RouteResult,
+  MultiLegPathResult,
+  SnapResult,
+  RoadPosition,
+  RouteEndpoint,
+  Maneuver,
+  PathLevelOfDetail,
+  EdgeInfo,
+  EdgeCostFunction,
+  PathOptions,
+  AlternativeOptions,
+  SearchAlgorithm,
+};
 
 // --- Example Usage (for Node.js) ---
 // To run this example, save the code as a .ts file (e.g., pathfinder.ts),
@@ -1056,7 +2619,7 @@ async function main() {
 
         // Get detailed coordinates for mapping
         const detailedCoords = pathFinder.getDetailedPathCoordinates(pathResult.path);
-        console(`\nDetailed Path Coordinates (first 5 and last 5):`);
+        console.log(`\nDetailed Path Coordinates (first 5 and last 5):`);
         if (detailedCoords.length > 10) {
           console.log(detailedCoords.slice(0, 5));
           console.log('...');
@@ -0,0 +1,201 @@
+import type { PathFinder, Point } from './pathfinding';
+import { calculateDistance } from './geo';
+import landmarksJson from '../assets/data/naga-landmarks.json';
+
+/**
+ * A curated landmark. `aliases` holds the names commuters actually type.
+ */
+export interface Landmark {
+  name: string;
+  aliases: string[];
+  category: string;
+  lat: number;
+  lon: number;
+}
+
+export interface PlaceSearchResult {
+  name: string;
+  point: Point;
+  category?: string;
+  source: 'landmark' | 'osm';
+  typos: number; // Edits needed to match the query, 0 for an exact prefix match
+  isGoodMatch: boolean; // Close enough to the query to skip an online search
+  distance?: number; // meters from `near`, when given
+}
+
+export interface PlaceSearchOptions {
+  near?: Point; // Rank equally good matches by distance from this point
+  limit?: number; // Maximum number of results (default 5)
+}
+
+interface IndexEntry {
+  name: string;
+  point: Point;
+  category?: string;
+  source: 'landmark' | 'osm';
+  names: string[][]; // Tokens of the name and each alias
+}
+
+// Checked into the repo; edit assets/data/naga-landmarks.json to add places
+const LANDMARKS = (landmarksJson as { landmarks: Landmark[] }).landmarks;
+
+// A place 2 km further away ranks like one extra typo
+const METERS_PER_TYPO = 2000;
+
+// A hit is good with at most MAX_GOOD_TYPOS typos for a query of at least
+// MIN_GOOD_QUERY_LENGTH letters; shorter queries like "a" prefix-match too many places
+const MAX_GOOD_TYPOS = 1;
+const MIN_GOOD_QUERY_LENGTH = 3;
+
+/**
+ * Lowercases, strips accents ("Peñafrancia" -> "penafrancia") and splits into words.
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Typos allowed for a query word of this length
+function maxTypos(length: number): number {
+  if (length <= 2) return 0;
+  if (length <= 5) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance between `query` and the closest prefix of `word`, so "aten" and
+ * "atneo" both match "ateneo".
+ */
+function prefixEditDistance(query: string, word: string): number {
+  let previous = Array.from({ length: word.length + 1 }, () => 0); // Any prefix of word is free
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= word.length; j++) {
+      const substitution = previous[j - 1] + (query[i - 1] === word[j - 1] ? 0 : 1);
+      current.push(Math.min(substitution, previous[j] + 1, current[j - 1] + 1));
+    }
+    previous = current;
+  }
+  return Math.min(...previous);
+}
+
+/**
+ * Matches every query word against a distinct word of the name.
+ * @returns The total number of typos, or null if some query word has no match.
+ */
+function matchTokens(queryTokens: string[], nameTokens: string[]): number | null {
+  const used = new Set<number>();
+  let typos = 0;
+
+  for (const queryToken of queryTokens) {
+    let best = Infinity;
+    let bestIndex = -1;
+    nameTokens.forEach((nameToken, index) => {
+      if (used.has(index)) return;
+      const distance = prefixEditDistance(queryToken, nameToken);
+      if (distance < best) {
+        best = distance;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1 || best > maxTypos(queryToken.length)) return null;
+    used.add(bestIndex);
+    typos += best;
+  }
+
+  return typos;
+}
+
+/**
+ * Offline place search over the curated Naga City landmarks and the named POIs of the
+ * road network a PathFinder has loaded. Matching is typo-tolerant and prefix based, so
+ * "SM Naga", "ateneo" and "plaza rzal" all find their landmark while typing.
+ */
+export class PlaceSearchIndex {
+  private entries: IndexEntry[] = [];
+
+  constructor(landmarks: Landmark[] = LANDMARKS) {
+    landmarks.forEach(landmark => {
+      this.entries.push({
+        name: landmark.name,
+        point: { latitude: landmark.lat, longitude: landmark.lon },
+        category: landmark.category,
+        source: 'landmark',
+        names: [landmark.name, ...landmark.aliases].map(tokenize),
+      });
+    });
+  }
+
+  /**
+   * Adds the named POIs of the loaded OSM data, skipping those a curated landmark
+   * already covers. Call again after the PathFinder loads a new area.
+   * @param pathFinder The PathFinder whose places to index.
+   */
+  addOsmPlaces(pathFinder: PathFinder): void {
+    this.entries = this.entries.filter(entry => entry.source === 'landmark');
+    const landmarkNames = new Set(this.entries.map(entry => tokenize(entry.name).join(' ')));
+
+    Object.values(pathFinder.getPlaces()).forEach(place => {
+      const name = place.tags?.name;
+      if (!name || landmarkNames.has(tokenize(name).join(' '))) return;
+
+      this.entries.push({
+        name,
+        point: { latitude: place.lat, longitude: place.lon },
+        category: place.tags?.amenity || place.tags?.shop || place.tags?.tourism || place.tags?.place,
+        source: 'osm',
+        names: [tokenize(name)],
+      });
+    });
+  }
+
+  /**
+   * Searches the index. Results are ranked by typos, with a nearby place allowed to
+   * beat a slightly better spelled one that is far away.
+   * @param query What the user typed.
+   * @param options Ranking options.
+   * @returns The best matches, best first; empty when nothing matches at all. Check
+   * `isGoodMatch` before relying on them alone.
+   */
+  search(query: string, options: PlaceSearchOptions = {}): PlaceSearchResult[] {
+    const { near, limit = 5 } = options;
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+    const queryLength = queryTokens.join('').length;
+
+    const results: (PlaceSearchResult & { score: number })[] = [];
+    this.entries.forEach(entry => {
+      const matches = entry.names
+        .map(nameTokens => matchTokens(queryTokens, nameTokens))
+        .filter((typos): typos is number => typos !== null);
+      if (matches.length === 0) return;
+
+      const typos = Math.min(...matches);
+      const distance = near ? calculateDistance(near, entry.point) : undefined;
+      // Curated landmarks win ties with OSM POIs of the same name
+      const score = typos + (distance ?? 0) / METERS_PER_TYPO + (entry.source === 'landmark' ? 0 : 0.5);
+
+      results.push({
+        name: entry.name,
+        point: entry.point,
+        category: entry.category,
+        source: entry.source,
+        typos,
+        isGoodMatch: typos <= MAX_GOOD_TYPOS && queryLength >= MIN_GOOD_QUERY_LENGTH,
+        distance,
+        score,
+      });
+    });
+
+    return results
+      .sort((a, b) => a.score - b.score)
+      .slice(0, limit)
+      .map(({ score, ...result }) => result);
+  }
+}
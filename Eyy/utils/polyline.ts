@@ -0,0 +1,106 @@
+import type { Point } from './pathfinding';
+
+// 5 decimal places (~1 m) as used by Google; OSRM and Valhalla also use 6. Values are
+// packed with 32-bit bitwise operations, so precisions above 6 overflow for longitudes.
+export const DEFAULT_POLYLINE_PRECISION = 5;
+
+// A route as sent between the app and the server
+export interface EncodedRoute {
+  polyline: string;
+  precision: number;
+}
+
+function encodeValue(value: number): string {
+  // Zigzag: the sign goes in the lowest bit
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  return encoded + String.fromCharCode(remaining + 63);
+}
+
+/**
+ * Encodes coordinates in the Google encoded polyline format: latitude/longitude pairs,
+ * each stored as the difference from the previous point in 5-bit chunks.
+ * @param points The coordinates.
+ * @param precision Decimal places kept (default 5).
+ * @returns The encoded polyline.
+ */
+export function encodePolyline(points: Point[], precision: number = DEFAULT_POLYLINE_PRECISION): string {
+  const factor = Math.pow(10, precision);
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  points.forEach(point => {
+    const lat = Math.round(point.latitude * factor);
+    const lng = Math.round(point.longitude * factor);
+    encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  });
+
+  return encoded;
+}
+
+/**
+ * Decodes a Google encoded polyline.
+ * @param encoded The encoded polyline.
+ * @param precision Decimal places it was encoded with (default 5).
+ * @returns The coordinates.
+ * @throws If the string is not a valid encoded polyline.
+ */
+export function decodePolyline(encoded: string, precision: number = DEFAULT_POLYLINE_PRECISION): Point[] {
+  const factor = Math.pow(10, precision);
+  const points: Point[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Encoded polyline ends in the middle of a value');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 0x3f) {
+        throw new Error(`Invalid character in encoded polyline at ${index - 1}`);
+      }
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    points.push({ latitude: lat / factor, longitude: lng / factor });
+  }
+
+  return points;
+}
+
+/**
+ * Encodes a route for a ride request or socket message.
+ * @param points The route coordinates.
+ * @param precision Decimal places kept (default 5).
+ * @returns The encoded route with its precision.
+ */
+export function encodeRoute(points: Point[], precision: number = DEFAULT_POLYLINE_PRECISION): EncodedRoute {
+  return { polyline: encodePolyline(points, precision), precision };
+}
+
+/**
+ * Decodes a route received from the server.
+ * @param route The encoded route.
+ * @returns The route coordinates.
+ */
+export function decodeRoute(route: EncodedRoute): Point[] {
+  return decodePolyline(route.polyline, route.precision ?? DEFAULT_POLYLINE_PRECISION);
+}
@@ -0,0 +1,60 @@
+/**
+ * Binary min-heap priority queue for the graph searches.
+ * Stores elements as tuples [priority, value], ordered by priority.
+ * Enqueue and dequeue are O(log n).
+ */
+export class PriorityQueue<T> {
+  private items: [number, T][] = [];
+
+  enqueue(item: [number, T]): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  dequeue(): [number, T] | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  isEmpty(): boolean {
+    return this.items.length === 0;
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+
+  private siftUp(index: number): void {
+    const items = this.items;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent][0] <= items[index][0]) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const items = this.items;
+    const length = items.length;
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && items[left][0] < items[smallest][0]) smallest = left;
+      if (right < length && items[right][0] < items[smallest][0]) smallest = right;
+      if (smallest === index) break;
+
+      [items[smallest], items[index]] = [items[index], items[smallest]];
+      index = smallest;
+    }
+  }
+}
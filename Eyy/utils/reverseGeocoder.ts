@@ -0,0 +1,87 @@
+import type { PathFinder, Point, OSMNode } from './pathfinding';
+import { calculateDistance } from './geo';
+
+export interface ReverseGeocodeResult {
+  poi?: string; // Nearest named point of interest
+  street?: string; // Name of the nearest road
+  barangay?: string;
+  label: string; // "near <POI>, <street>, <barangay>"
+}
+
+export interface ReverseGeocodeOptions {
+  poiRadius?: number; // meters (default 150)
+  streetRadius?: number; // meters (default 100)
+  barangayRadius?: number; // meters (default 2000)
+}
+
+// `place` values of barangay nodes; city, town and island nodes are not barangays
+const BARANGAY_PLACE_TYPES = ['village', 'quarter', 'neighbourhood', 'suburb'];
+
+/**
+ * Offline reverse geocoder over the OSM data a PathFinder has loaded: named roads,
+ * POIs, `addr:*` nodes and barangay place nodes. No network call is made.
+ */
+export class ReverseGeocoder {
+  constructor(private pathFinder: PathFinder) {}
+
+  /**
+   * Describes a coordinate as "near <POI>, <street>, <barangay>", leaving out parts
+   * that have no match nearby.
+   * @param point The coordinate to describe.
+   * @param options Search radii.
+   * @returns The address parts and label, or null if nothing nearby is known.
+   */
+  reverseGeocode(point: Point, options: ReverseGeocodeOptions = {}): ReverseGeocodeResult | null {
+    const { poiRadius = 150, streetRadius = 100, barangayRadius = 2000 } = options;
+    const places = Object.values(this.pathFinder.getPlaces());
+
+    const poiNode = this.findNearestPlace(point, poiRadius, places, tags => !!tags.name && !tags.place);
+    const barangayNode = this.findNearestPlace(point, barangayRadius, places, tags => BARANGAY_PLACE_TYPES.includes(tags.place) && !!tags.name);
+    const addressNode = this.findNearestPlace(point, streetRadius, places, tags => !!tags['addr:street']);
+
+    const poi = poiNode?.tags?.name;
+    const street = this.findNearestStreet(point, streetRadius) ?? addressNode?.tags?.['addr:street'];
+    const barangay = barangayNode?.tags?.name;
+
+    if (!poi && !street && !barangay) return null;
+
+    const label = [poi && `near ${poi}`, street, barangay].filter(Boolean).join(', ');
+    return { poi, street, barangay, label };
+  }
+
+  private findNearestPlace(
+    point: Point,
+    radius: number,
+    places: OSMNode[],
+    matches: (tags: { [key: string]: string }) => boolean
+  ): OSMNode | null {
+    let nearest: OSMNode | null = null;
+    let minDistance = radius;
+
+    for (const place of places) {
+      if (!place.tags || !matches(place.tags)) continue;
+      const distance = calculateDistance(point, { latitude: place.lat, longitude: place.lon });
+      if (distance <= minDistance) {
+        minDistance = distance;
+        nearest = place;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Finds the name of the closest named road within the radius, from the road graph's
+   * spatial index.
+   */
+  private findNearestStreet(point: Point, radius: number): string | undefined {
+    const index = this.pathFinder.getSpatialIndex();
+    const ways = this.pathFinder.getOsmWays();
+
+    for (const edge of index.edgesWithinRadius(point, radius)) {
+      const name = ways[index.graph.edgeWayIds[edge.edge]]?.tags.name;
+      if (name) return name;
+    }
+    return undefined;
+  }
+}
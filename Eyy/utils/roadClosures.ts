@@ -0,0 +1,132 @@
+import type { Point } from './pathfinding';
+
+/**
+ * A road closure or area to avoid, e.g. a flooded street or a fiesta procession route.
+ * Affects the edges of the listed ways and every edge touching the polygon.
+ */
+export interface RoadClosure {
+  id: string;
+  kind: 'closed' | 'avoid'; // 'closed' edges are never used, 'avoid' edges cost `penalty` times more
+  reason?: string; // Shown to users, e.g. "Flooded"
+  polygon?: Point[]; // Closed area; the first point is not repeated at the end
+  wayIds?: number[]; // OSM way IDs closed along their whole length
+  startsAt?: Date; // Active from this time; always active when missing
+  endsAt?: Date; // Active until this time; open-ended when missing
+  penalty?: number; // Cost multiplier for 'avoid' closures (default 5)
+}
+
+export const DEFAULT_AVOID_PENALTY = 5;
+
+/**
+ * Validates a closure received from the API, where times are ISO strings.
+ * @param data The parsed JSON.
+ * @returns The closure.
+ * @throws If the closure is malformed.
+ */
+export function parseRoadClosure(data: any): RoadClosure {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Road closure must be an object');
+  }
+
+  const id = data.id ?? data._id;
+  if (typeof id !== 'string' || !id) {
+    throw new Error('Road closure needs an id');
+  }
+  if (data.kind !== 'closed' && data.kind !== 'avoid') {
+    throw new Error(`Road closure ${id} has unknown kind "${data.kind}"`);
+  }
+
+  let polygon: Point[] | undefined;
+  if (data.polygon != null) {
+    if (
+      !Array.isArray(data.polygon) ||
+      data.polygon.length < 3 ||
+      data.polygon.some((p: any) => typeof p?.latitude !== 'number' || typeof p?.longitude !== 'number')
+    ) {
+      throw new Error(`Road closure ${id} polygon needs at least 3 points`);
+    }
+    polygon = data.polygon.map((p: any) => ({ latitude: p.latitude, longitude: p.longitude }));
+  }
+
+  if (data.wayIds != null && (!Array.isArray(data.wayIds) || data.wayIds.some((w: any) => !Number.isInteger(w)))) {
+    throw new Error(`Road closure ${id} wayIds must be OSM way IDs`);
+  }
+  if (!polygon && !data.wayIds?.length) {
+    throw new Error(`Road closure ${id} needs a polygon or way IDs`);
+  }
+
+  const parseTime = (value: any, field: string) => {
+    if (value == null) return undefined;
+    const time = new Date(value);
+    if (isNaN(time.getTime())) {
+      throw new Error(`Road closure ${id} has an invalid ${field}`);
+    }
+    return time;
+  };
+
+  if (data.penalty != null && (typeof data.penalty !== 'number' || data.penalty < 1)) {
+    throw new Error(`Road closure ${id} penalty must be at least 1`);
+  }
+
+  return {
+    id,
+    kind: data.kind,
+    reason: typeof data.reason === 'string' ? data.reason : undefined,
+    polygon,
+    wayIds: data.wayIds?.length ? data.wayIds : undefined,
+    startsAt: parseTime(data.startsAt, 'startsAt'),
+    endsAt: parseTime(data.endsAt, 'endsAt'),
+    penalty: data.penalty,
+  };
+}
+
+/**
+ * Whether a closure is in effect at a given time.
+ */
+export function isClosureActive(closure: RoadClosure, time: Date): boolean {
+  const t = time.getTime();
+  return (!closure.startsAt || closure.startsAt.getTime() <= t) && (!closure.endsAt || t < closure.endsAt.getTime());
+}
+
+/**
+ * Ray casting point-in-polygon test; longitude is x, latitude is y.
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Signed area of the triangle (a, b, c); its sign tells which side of ab c is on
+function orientation(a: Point, b: Point, c: Point): number {
+  return (b.longitude - a.longitude) * (c.latitude - a.latitude) - (b.latitude - a.latitude) * (c.longitude - a.longitude);
+}
+
+function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Whether a road segment touches a polygon: an end lies inside, or the segment
+ * crosses the boundary (a flood across a long straight road).
+ */
+export function segmentTouchesPolygon(from: Point, to: Point, polygon: Point[]): boolean {
+  if (isPointInPolygon(from, polygon) || isPointInPolygon(to, polygon)) return true;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (segmentsIntersect(from, to, polygon[j], polygon[i])) return true;
+  }
+  return false;
+}
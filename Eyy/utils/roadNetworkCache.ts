@@ -0,0 +1,234 @@
+import * as FileSystem from 'expo-file-system';
+import { CompactGraph, loadCompactGraph, saveCompactGraph } from './compactGraph';
+
+interface CacheEntry {
+  id: string; // Tile key (see utils/roadTiles), or '<tile key>.<vehicle profile key>' for a graph
+  kind?: 'graph'; // The road graph built from a tile; OSM data of the tile if unset
+  size: number; // bytes (approximate for tiles, UTF-16 length of the JSON)
+  createdAt: number;
+  lastAccessed: number;
+}
+
+interface CacheIndex {
+  schemaVersion: number;
+  entries: CacheEntry[];
+}
+
+// Bump when the stored data format changes; older caches are dropped on load
+const CACHE_SCHEMA_VERSION = 6; // 2: turn restriction relations, 3: tagged place nodes, 4: tiles instead of circles, 5: road graphs, 6: graphs by profile key
+const MAX_CACHE_BYTES = 25 * 1024 * 1024; // 25 MB on-device budget
+
+const CACHE_DIR = `${FileSystem.documentDirectory}road-network-cache/`;
+const INDEX_PATH = `${CACHE_DIR}index.json`;
+
+let index: CacheIndex | null = null;
+// Serializes index updates so concurrent fetches don't overwrite each other's entries
+let pending: Promise<unknown> = Promise.resolve();
+
+function withLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = pending.then(task, task);
+  pending = result.catch(() => undefined);
+  return result;
+}
+
+function entryPath(entry: Pick<CacheEntry, 'id' | 'kind'>): string {
+  return `${CACHE_DIR}${entry.id}.${entry.kind === 'graph' ? 'graph' : 'json'}`;
+}
+
+function graphId(tileKey: string, profileKey: string): string {
+  return `${tileKey}.${profileKey}`;
+}
+
+async function clearCacheDir(): Promise<void> {
+  await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+}
+
+/**
+ * Loads the cache index from disk, dropping the whole cache if it was written
+ * with a different schema version or cannot be read.
+ */
+async function loadIndex(): Promise<CacheIndex> {
+  if (index) return index;
+
+  try {
+    const info = await FileSystem.getInfoAsync(INDEX_PATH);
+    if (info.exists) {
+      const stored: CacheIndex = JSON.parse(await FileSystem.readAsStringAsync(INDEX_PATH));
+      if (stored.schemaVersion === CACHE_SCHEMA_VERSION && Array.isArray(stored.entries)) {
+        index = stored;
+        return index;
+      }
+      console.log(`Dropping road network cache with schema version ${stored.schemaVersion}`);
+    }
+  } catch (error) {
+    console.warn('Road network cache index is unreadable, clearing cache:', error);
+  }
+
+  await clearCacheDir();
+  index = { schemaVersion: CACHE_SCHEMA_VERSION, entries: [] };
+  await saveIndex(index);
+  return index;
+}
+
+async function saveIndex(current: CacheIndex): Promise<void> {
+  await FileSystem.writeAsStringAsync(INDEX_PATH, JSON.stringify(current));
+}
+
+async function removeEntry(current: CacheIndex, entry: CacheEntry): Promise<void> {
+  current.entries = current.entries.filter(e => e !== entry);
+  await FileSystem.deleteAsync(entryPath(entry), { idempotent: true });
+}
+
+async function removeExpiredEntries(current: CacheIndex, maxAge: number): Promise<void> {
+  const now = Date.now();
+  for (const entry of current.entries.filter(e => now - e.createdAt >= maxAge)) {
+    await removeEntry(current, entry);
+  }
+}
+
+/**
+ * Evicts least recently used entries until `size` more bytes fit the cache budget.
+ * @returns False if the entry is too large to cache at all.
+ */
+async function makeRoom(current: CacheIndex, size: number): Promise<boolean> {
+  if (size > MAX_CACHE_BYTES) return false;
+
+  const lru = [...current.entries].sort((a, b) => a.lastAccessed - b.lastAccessed);
+  let totalSize = current.entries.reduce((sum, e) => sum + e.size, 0);
+  while (totalSize + size > MAX_CACHE_BYTES && lru.length > 0) {
+    const evicted = lru.shift()!;
+    totalSize -= evicted.size;
+    await removeEntry(current, evicted);
+  }
+  return true;
+}
+
+/**
+ * Reads the cached road network of a tile.
+ * @param tileKey The tile key.
+ * @param maxAge Entries older than this (in milliseconds) are ignored and evicted.
+ * @returns The cached OSM data, or null on a cache miss.
+ */
+export function getCachedRoadTile(tileKey: string, maxAge: number): Promise<any | null> {
+  return withLock(async () => {
+    const current = await loadIndex();
+    const now = Date.now();
+    await removeExpiredEntries(current, maxAge);
+
+    const entry = current.entries.find(e => e.id === tileKey && !e.kind);
+    if (!entry) {
+      await saveIndex(current);
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(await FileSystem.readAsStringAsync(entryPath(entry)));
+      entry.lastAccessed = now;
+      await saveIndex(current);
+      return data;
+    } catch (error) {
+      console.warn(`Cached road tile ${entry.id} is unreadable, evicting:`, error);
+      await removeEntry(current, entry);
+      await saveIndex(current);
+      return null;
+    }
+  });
+}
+
+/**
+ * Stores the road network of a tile, evicting least recently used entries until the
+ * cache fits its size budget. Graphs built from older data of the tile are dropped.
+ * @param tileKey The tile key.
+ * @param data The OSM data of the tile.
+ */
+export function putCachedRoadTile(tileKey: string, data: any): Promise<void> {
+  return withLock(async () => {
+    const current = await loadIndex();
+    const serialized = JSON.stringify(data);
+    const size = serialized.length * 2;
+
+    const stale = current.entries.filter(e => e.id === tileKey || (e.kind === 'graph' && e.id.startsWith(`${tileKey}.`)));
+    for (const entry of stale) {
+      await removeEntry(current, entry);
+    }
+
+    if (!(await makeRoom(current, size))) {
+      console.warn(`Road tile ${tileKey} is too large to cache (${size} bytes)`);
+      await saveIndex(current);
+      return;
+    }
+
+    const now = Date.now();
+    const entry: CacheEntry = { id: tileKey, size, createdAt: now, lastAccessed: now };
+    await FileSystem.writeAsStringAsync(entryPath(entry), serialized);
+    current.entries.push(entry);
+    await saveIndex(current);
+  });
+}
+
+/**
+ * Reads the road graph built from a tile for a vehicle profile, so loading a cached
+ * tile skips building its graph.
+ * @param tileKey The tile key, or the key of another network such as the offline extract.
+ * @param profileKey The key of the vehicle profile the graph was built for, from `getProfileKey`.
+ * @param maxAge Entries older than this (in milliseconds) are ignored and evicted.
+ * @returns The graph, or null on a cache miss.
+ */
+export function getCachedRoadGraph(tileKey: string, profileKey: string, maxAge: number): Promise<CompactGraph | null> {
+  return withLock(async () => {
+    const current = await loadIndex();
+    await removeExpiredEntries(current, maxAge);
+
+    const id = graphId(tileKey, profileKey);
+    const entry = current.entries.find(e => e.id === id && e.kind === 'graph');
+    if (!entry) {
+      await saveIndex(current);
+      return null;
+    }
+
+    try {
+      const graph = await loadCompactGraph(entryPath(entry));
+      entry.lastAccessed = Date.now();
+      await saveIndex(current);
+      return graph;
+    } catch (error) {
+      console.warn(`Cached road graph ${entry.id} is unreadable, evicting:`, error);
+      await removeEntry(current, entry);
+      await saveIndex(current);
+      return null;
+    }
+  });
+}
+
+/**
+ * Stores the road graph built from a tile for a vehicle profile, evicting least recently
+ * used entries until the cache fits its size budget.
+ * @param tileKey The tile key, or the key of another network such as the offline extract.
+ * @param profileKey The key of the vehicle profile the graph was built for, from `getProfileKey`.
+ * @param graph The graph of the tile alone.
+ */
+export function putCachedRoadGraph(tileKey: string, profileKey: string, graph: CompactGraph): Promise<void> {
+  return withLock(async () => {
+    const current = await loadIndex();
+    const entry: CacheEntry = { id: graphId(tileKey, profileKey), kind: 'graph', size: 0, createdAt: 0, lastAccessed: 0 };
+
+    const existing = current.entries.find(e => e.id === entry.id && e.kind === 'graph');
+    if (existing) {
+      await removeEntry(current, existing);
+    }
+
+    // The serialized size is only known once the file is written
+    entry.size = await saveCompactGraph(entryPath(entry), graph);
+    if (!(await makeRoom(current, entry.size))) {
+      console.warn(`Road graph ${entry.id} is too large to cache (${entry.size} bytes)`);
+      await FileSystem.deleteAsync(entryPath(entry), { idempotent: true });
+      await saveIndex(current);
+      return;
+    }
+
+    entry.createdAt = entry.lastAccessed = Date.now();
+    current.entries.push(entry);
+    await saveIndex(current);
+  });
+}
@@ -0,0 +1,162 @@
+import * as FileSystem from 'expo-file-system';
+import Constants from 'expo-constants';
+import bundledExtractJson from '../assets/data/naga-road-network.json';
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RoadNetworkBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Pre-built road network for the service area. `elements` has the same shape as an
+ * Overpass API response, so it can be fed straight into the graph builders.
+ */
+export interface RoadNetworkExtract {
+  version: number;
+  generatedAt: string | null;
+  bounds: RoadNetworkBounds;
+  elements: any[];
+}
+
+interface RoadNetworkManifest {
+  version: number;
+  url: string; // Absolute, or relative to the manifest URL
+  generatedAt?: string;
+}
+
+// Built by scripts/build-road-network.js
+const bundledExtract = bundledExtractJson as RoadNetworkExtract;
+
+const EXTRACT_DIR = `${FileSystem.documentDirectory}road-network/`;
+const EXTRACT_PATH = `${EXTRACT_DIR}naga-road-network.json`;
+const VERSION_PATH = `${EXTRACT_DIR}version.json`;
+
+let loadedExtract: RoadNetworkExtract | null = null;
+let warnedEmptyExtract = false;
+
+/**
+ * Checks whether a point lies inside the given bounds.
+ */
+export function isWithinBounds(point: Point, bounds: RoadNetworkBounds): boolean {
+  return (
+    point.latitude >= bounds.south &&
+    point.latitude <= bounds.north &&
+    point.longitude >= bounds.west &&
+    point.longitude <= bounds.east
+  );
+}
+
+function hasElements(extract: RoadNetworkExtract | null): extract is RoadNetworkExtract {
+  return !!extract && Array.isArray(extract.elements) && extract.elements.length > 0;
+}
+
+/**
+ * Reads the version of the downloaded extract without parsing the extract itself.
+ */
+async function getDownloadedVersion(): Promise<number | null> {
+  try {
+    const info = await FileSystem.getInfoAsync(VERSION_PATH);
+    if (!info.exists) return null;
+    const { version } = JSON.parse(await FileSystem.readAsStringAsync(VERSION_PATH));
+    return typeof version === 'number' ? version : null;
+  } catch (error) {
+    console.warn('Failed to read downloaded road network version:', error);
+    return null;
+  }
+}
+
+/**
+ * Returns the version of the extract that `getRoadNetworkExtract` would load.
+ */
+export async function getRoadNetworkVersion(): Promise<number> {
+  const downloadedVersion = await getDownloadedVersion();
+  return Math.max(bundledExtract.version, downloadedVersion ?? -1);
+}
+
+/**
+ * Loads the newest available road network extract: a downloaded update if one is
+ * newer than the bundled asset, otherwise the bundled asset itself.
+ * @returns The extract, or null if no extract with road data is available.
+ */
+export async function getRoadNetworkExtract(): Promise<RoadNetworkExtract | null> {
+  if (loadedExtract) return loadedExtract;
+
+  const downloadedVersion = await getDownloadedVersion();
+  if (downloadedVersion !== null && downloadedVersion > bundledExtract.version) {
+    try {
+      const downloaded: RoadNetworkExtract = JSON.parse(await FileSystem.readAsStringAsync(EXTRACT_PATH));
+      if (hasElements(downloaded)) {
+        loadedExtract = downloaded;
+        return loadedExtract;
+      }
+    } catch (error) {
+      console.warn('Downloaded road network extract is unreadable, using bundled extract:', error);
+    }
+  }
+
+  if (!hasElements(bundledExtract)) {
+    // A build without `npm run build-road-network` ships the empty placeholder
+    if (!warnedEmptyExtract) {
+      console.warn('The bundled road network extract has no roads; tiles are fetched from Overpass');
+      warnedEmptyExtract = true;
+    }
+    return null;
+  }
+  loadedExtract = bundledExtract;
+  return loadedExtract;
+}
+
+/**
+ * Checks the manifest for a newer road network extract and downloads it if available.
+ * The new extract is used the next time a PathFinder loads the offline network.
+ * @param manifestUrl URL of the manifest written by `build-road-network.js --out`.
+ * @returns True if a newer extract was installed, false otherwise.
+ */
+export async function updateRoadNetworkExtract(
+  manifestUrl: string | undefined = Constants.expoConfig?.extra?.roadNetworkManifestUrl
+): Promise<boolean> {
+  if (!manifestUrl) return false;
+
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch road network manifest: ${response.status}`);
+  }
+
+  const manifest: RoadNetworkManifest = await response.json();
+  const currentVersion = await getRoadNetworkVersion();
+  if (typeof manifest.version !== 'number' || manifest.version <= currentVersion) {
+    return false;
+  }
+
+  console.log(`Downloading road network extract version ${manifest.version} (current ${currentVersion})`);
+  await FileSystem.makeDirectoryAsync(EXTRACT_DIR, { intermediates: true });
+
+  const extractUrl = new URL(manifest.url, manifestUrl).toString();
+  const tempPath = `${EXTRACT_PATH}.download`;
+  const download = await FileSystem.downloadAsync(extractUrl, tempPath);
+  if (download.status !== 200) {
+    await FileSystem.deleteAsync(tempPath, { idempotent: true });
+    throw new Error(`Failed to download road network extract: ${download.status}`);
+  }
+
+  // Validate before replacing the current extract so a bad download never breaks routing
+  const extract: RoadNetworkExtract = JSON.parse(await FileSystem.readAsStringAsync(tempPath));
+  if (!hasElements(extract) || extract.version !== manifest.version) {
+    await FileSystem.deleteAsync(tempPath, { idempotent: true });
+    throw new Error('Downloaded road network extract is invalid');
+  }
+
+  await FileSystem.deleteAsync(EXTRACT_PATH, { idempotent: true });
+  await FileSystem.moveAsync({ from: tempPath, to: EXTRACT_PATH });
+  await FileSystem.writeAsStringAsync(VERSION_PATH, JSON.stringify({ version: extract.version }));
+
+  loadedExtract = extract;
+  return true;
+}
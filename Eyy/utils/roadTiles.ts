@@ -0,0 +1,107 @@
+import type { Point } from './pathfinding';
+import type { RoadNetworkBounds } from './roadNetworkExtract';
+
+// Tiles are cells of a fixed latitude/longitude grid, about 5.5 km wide around Naga
+export const TILE_SIZE = 0.05; // degrees
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Gets the key of the tile containing a point, e.g. "2463_272".
+ */
+export function getTileKey(point: Point): string {
+  const x = Math.floor(point.longitude / TILE_SIZE);
+  const y = Math.floor(point.latitude / TILE_SIZE);
+  return `${x}_${y}`;
+}
+
+/**
+ * Gets the area covered by a tile.
+ * @param tileKey The tile key from `getTileKey`.
+ * @returns The tile's bounds.
+ * @throws If the key is not a tile key.
+ */
+export function getTileBounds(tileKey: string): RoadNetworkBounds {
+  const match = /^(-?\d+)_(-?\d+)$/.exec(tileKey);
+  if (!match) {
+    throw new Error(`Invalid road tile key "${tileKey}"`);
+  }
+  const x = parseInt(match[1], 10);
+  const y = parseInt(match[2], 10);
+  return {
+    south: y * TILE_SIZE,
+    west: x * TILE_SIZE,
+    north: (y + 1) * TILE_SIZE,
+    east: (x + 1) * TILE_SIZE,
+  };
+}
+
+/**
+ * Whether a tile lies completely inside the given bounds, e.g. the offline extract.
+ */
+export function isTileWithinBounds(tileKey: string, bounds: RoadNetworkBounds): boolean {
+  const tile = getTileBounds(tileKey);
+  return tile.south >= bounds.south && tile.north <= bounds.north && tile.west >= bounds.west && tile.east <= bounds.east;
+}
+
+/**
+ * Gets the tiles that overlap a circle.
+ * @param center The center of the circle.
+ * @param radius The radius in meters.
+ * @returns The tile keys, nearest to the center first.
+ */
+export function getTilesAroundPoint(center: Point, radius: number): string[] {
+  const metersPerDegreeLon = METERS_PER_DEGREE * Math.cos(center.latitude * Math.PI / 180);
+  const dLat = radius / METERS_PER_DEGREE;
+  const dLon = radius / metersPerDegreeLon;
+
+  const minX = Math.floor((center.longitude - dLon) / TILE_SIZE);
+  const maxX = Math.floor((center.longitude + dLon) / TILE_SIZE);
+  const minY = Math.floor((center.latitude - dLat) / TILE_SIZE);
+  const maxY = Math.floor((center.latitude + dLat) / TILE_SIZE);
+
+  const tiles: { key: string; distance: number }[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      // Distance from the center to the closest point of the tile
+      const closestLon = Math.max(x * TILE_SIZE, Math.min((x + 1) * TILE_SIZE, center.longitude));
+      const closestLat = Math.max(y * TILE_SIZE, Math.min((y + 1) * TILE_SIZE, center.latitude));
+      const distance = Math.hypot(
+        (closestLon - center.longitude) * metersPerDegreeLon,
+        (closestLat - center.latitude) * METERS_PER_DEGREE
+      );
+      if (distance <= radius) {
+        tiles.push({ key: `${x}_${y}`, distance });
+      }
+    }
+  }
+
+  return tiles.sort((a, b) => a.distance - b.distance).map(tile => tile.key);
+}
+
+/**
+ * Gets the tiles within `margin` meters of the straight line between two points, i.e.
+ * the tiles a route between them most likely passes through.
+ * @param start The start of the line.
+ * @param end The end of the line.
+ * @param margin Meters on either side of the line.
+ * @returns The tile keys, from the start toward the end.
+ */
+export function getTilesAlongSegment(start: Point, end: Point, margin: number): string[] {
+  const length = Math.hypot(
+    (end.longitude - start.longitude) * METERS_PER_DEGREE * Math.cos(start.latitude * Math.PI / 180),
+    (end.latitude - start.latitude) * METERS_PER_DEGREE
+  );
+
+  // Circles every `margin` meters cover a band at least `margin` * sqrt(3) / 2 wide
+  const steps = Math.max(1, Math.ceil(length / margin));
+  const keys = new Set<string>();
+  for (let i = 0; i <= steps; i++) {
+    const point = {
+      latitude: start.latitude + (end.latitude - start.latitude) * i / steps,
+      longitude: start.longitude + (end.longitude - start.longitude) * i / steps,
+    };
+    getTilesAroundPoint(point, margin).forEach(key => keys.add(key));
+  }
+  return [...keys];
+}
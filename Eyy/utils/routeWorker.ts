@@ -0,0 +1,271 @@
+import type { PathFinder, PathResult, MultiLegPathResult, PathOptions, AlternativeOptions, RouteEndpoint } from './pathfinding';
+
+export type RouteTaskStage = 'parse' | 'graph' | 'search' | 'route' | 'match';
+
+export interface RouteTaskProgress {
+  stage: RouteTaskStage;
+  completed: number; // Elements parsed, ways or nodes added, meters of straight-line progress toward the goal, seconds of travel time searched, route edges measured, or GPS fixes matched
+  total: number;
+}
+
+/**
+ * A long computation split into small steps: the generator yields progress between steps
+ * and returns its result. Run it in one go with `runTask` or in the background with a
+ * RouteExecutor.
+ */
+export type RouteTask<T> = Generator<RouteTaskProgress, T, void>;
+
+/**
+ * Runs a task to completion on the calling thread.
+ * @param task The task.
+ * @returns The task's result.
+ */
+export function runTask<T>(task: RouteTask<T>): T {
+  let step = task.next();
+  while (!step.done) {
+    step = task.next();
+  }
+  return step.value;
+}
+
+/**
+ * Rejection reason of jobs that were cancelled before they finished.
+ */
+export class RouteCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Route job ${jobId} was cancelled`);
+    this.name = 'RouteCancelledError';
+  }
+}
+
+export interface RouteJob<T> {
+  id: number;
+  promise: Promise<T>;
+  cancel(): void;
+}
+
+interface QueuedJob {
+  id: number;
+  task: RouteTask<unknown>;
+  onProgress?: (progress: RouteTaskProgress) => void;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  cancelled: boolean;
+}
+
+/**
+ * Background executor for route tasks. React Native runs all app JavaScript on one
+ * thread, so instead of a separate thread the executor runs jobs one after another in
+ * slices of a few milliseconds and hands the thread back to the UI between slices: the
+ * map keeps panning and buttons keep responding while a route is computed.
+ */
+export class RouteExecutor {
+  private queue: QueuedJob[] = [];
+  private nextJobId = 1;
+  private running = false;
+  private progressListeners: ((progress: RouteTaskProgress) => void)[] = [];
+
+  /**
+   * @param sliceMs How long a job may run before the UI gets the thread back.
+   */
+  constructor(private sliceMs: number = 12) {}
+
+  /**
+   * Queues a task. Jobs run in the order they were queued.
+   * @param task The task.
+   * @param onProgress Called with the task's progress, at most once per slice.
+   * @returns The job; its promise rejects with RouteCancelledError if it is cancelled.
+   */
+  run<T>(task: RouteTask<T>, onProgress?: (progress: RouteTaskProgress) => void): RouteJob<T> {
+    const id = this.nextJobId++;
+    let job!: QueuedJob;
+    const promise = new Promise<T>((resolve, reject) => {
+      job = { id, task, onProgress, resolve: value => resolve(value as T), reject, cancelled: false };
+    });
+    this.queue.push(job);
+    this.schedule();
+
+    return {
+      id,
+      promise,
+      cancel: () => this.cancelJob(job),
+    };
+  }
+
+  /**
+   * Subscribes to the progress of every job, e.g. for a loading indicator that covers
+   * graph building as well as searches.
+   * @param listener Called with the progress of the running job, at most once per slice.
+   * @returns A function that unsubscribes the listener.
+   */
+  onProgress(listener: (progress: RouteTaskProgress) => void): () => void {
+    this.progressListeners.push(listener);
+    return () => {
+      this.progressListeners = this.progressListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Checks whether a job is queued or running.
+   * @returns True until the last job has finished.
+   */
+  isBusy(): boolean {
+    return this.queue.length > 0;
+  }
+
+  /**
+   * Cancels every queued and running job.
+   */
+  cancelAll(): void {
+    [...this.queue].forEach(job => this.cancelJob(job));
+  }
+
+  private cancelJob(job: QueuedJob): void {
+    if (job.cancelled || !this.queue.includes(job)) return;
+    job.cancelled = true;
+    this.queue = this.queue.filter(queued => queued !== job);
+    job.task.return(undefined); // Runs the task's finally blocks
+    job.reject(new RouteCancelledError(job.id));
+  }
+
+  private schedule(): void {
+    if (this.running || this.queue.length === 0) return;
+    this.running = true;
+    setTimeout(() => this.runSlice(), 0);
+  }
+
+  private runSlice(): void {
+    const job = this.queue[0];
+    if (!job) {
+      this.running = false;
+      return;
+    }
+
+    const deadline = Date.now() + this.sliceMs;
+    let progress: RouteTaskProgress | null = null;
+    try {
+      let step = job.task.next();
+      while (!step.done && Date.now() < deadline) {
+        progress = step.value;
+        step = job.task.next();
+      }
+
+      if (step.done) {
+        this.queue.shift();
+        job.resolve(step.value);
+      } else {
+        progress = step.value;
+      }
+    } catch (error) {
+      this.queue.shift();
+      job.reject(error);
+    }
+
+    if (progress && !job.cancelled) {
+      const current = progress;
+      [job.onProgress, ...this.progressListeners].forEach(listener => {
+        try {
+          listener?.(current);
+        } catch (error) {
+          console.warn('Route progress listener failed:', error);
+        }
+      });
+    }
+
+    // Give the UI a turn before the next slice
+    this.running = false;
+    this.schedule();
+  }
+}
+
+// Messages understood by a RouteWorker by type, with the answer to each
+interface RouteWorkerMessages {
+  loadNetwork: {
+    request: { data: { elements: any[] } };
+    response: void;
+  };
+  shortestPath: {
+    request: { start: RouteEndpoint; end: RouteEndpoint; options?: PathOptions };
+    response: PathResult | null;
+  };
+  alternativePaths: {
+    request: { start: RouteEndpoint; end: RouteEndpoint; options?: AlternativeOptions };
+    response: PathResult[];
+  };
+  waypointPath: {
+    request: { waypoints: RouteEndpoint[]; options?: PathOptions };
+    response: MultiLegPathResult | null;
+  };
+  reachableNodes: {
+    request: { startId: string; maxTime: number; departureTime?: Date };
+    response: { [nodeId: string]: number };
+  };
+}
+
+export type RouteWorkerRequestType = keyof RouteWorkerMessages;
+
+/**
+ * A message to a RouteWorker; without a type argument, any of them.
+ */
+export type RouteWorkerRequest<K extends RouteWorkerRequestType = RouteWorkerRequestType> = {
+  [P in K]: { type: P } & RouteWorkerMessages[P]['request'];
+}[K];
+
+export type RouteWorkerResponse<K extends RouteWorkerRequestType> = RouteWorkerMessages[K]['response'];
+
+// The PathFinder task that answers each type of message
+const REQUEST_TASKS: {
+  [K in RouteWorkerRequestType]: (pathFinder: PathFinder, request: RouteWorkerRequest<K>) => RouteTask<RouteWorkerResponse<K>>;
+} = {
+  loadNetwork: (pathFinder, request) => pathFinder.loadNetworkTask(request.data),
+  shortestPath: (pathFinder, request) => pathFinder.shortestPathTask(request.start, request.end, request.options),
+  alternativePaths: (pathFinder, request) => pathFinder.alternativePathsTask(request.start, request.end, request.options),
+  waypointPath: (pathFinder, request) => pathFinder.waypointPathTask(request.waypoints, request.options),
+  reachableNodes: (pathFinder, request) => pathFinder.findReachableNodesTask(request.startId, request.maxTime, request.departureTime),
+};
+
+/**
+ * Worker-style front end for a PathFinder: post a message, get a cancellable job whose
+ * promise resolves with the answer. Graph building and searches run on a RouteExecutor,
+ * so they never block the UI for more than one slice.
+ */
+export class RouteWorker {
+  constructor(private pathFinder: PathFinder, private executor: RouteExecutor = new RouteExecutor()) {}
+
+  /**
+   * Sends a request to the worker.
+   * @param request The request.
+   * @param onProgress Called with progress while the request runs.
+   * @returns The job computing the response.
+   */
+  postMessage<K extends RouteWorkerRequestType>(
+    request: RouteWorkerRequest<K>,
+    onProgress?: (progress: RouteTaskProgress) => void
+  ): RouteJob<RouteWorkerResponse<K>> {
+    return this.executor.run(this.toTask(request), onProgress);
+  }
+
+  private toTask<K extends RouteWorkerRequestType>(request: RouteWorkerRequest<K>): RouteTask<RouteWorkerResponse<K>> {
+    const toTask: ((pathFinder: PathFinder, request: RouteWorkerRequest<K>) => RouteTask<RouteWorkerResponse<K>>) | undefined =
+      REQUEST_TASKS[request.type];
+    if (!toTask) {
+      throw new Error(`Unknown route worker request: ${request.type}`);
+    }
+    return toTask(this.pathFinder, request);
+  }
+
+  /**
+   * Gets the executor the worker runs on, e.g. to let the PathFinder build graphs on it.
+   * @returns The RouteExecutor.
+   */
+  getExecutor(): RouteExecutor {
+    return this.executor;
+  }
+
+  /**
+   * Cancels all pending and running requests.
+   */
+  terminate(): void {
+    this.executor.cancelAll();
+  }
+}
@@ -0,0 +1,231 @@
+import * as FileSystem from 'expo-file-system';
+import type { Point } from './pathfinding';
+import type { RoadNetworkBounds } from './roadNetworkExtract';
+import { isPointInPolygon } from './roadClosures';
+import defaultZonesJson from '../assets/data/naga-zones.json';
+
+// 'city' zones make up the service area; barangays and franchise zones subdivide it
+export type ZoneKind = 'city' | 'barangay' | 'franchise';
+
+const ZONE_KINDS: ZoneKind[] = ['city', 'barangay', 'franchise'];
+
+/**
+ * An area from the zones GeoJSON, e.g. the city limit, a barangay or the zone a
+ * tricycle franchise (TODA) may pick up in.
+ */
+export interface Zone {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  polygons: Point[][][]; // Each polygon is its outer ring followed by its holes
+  bounds: RoadNetworkBounds;
+}
+
+// The zones a pickup, stop or dropoff lies in, sent with the booking for pricing and dispatch
+export interface ZoneTags {
+  city: string | null; // null outside the service area
+  barangay: string | null;
+  franchises: string[]; // Franchise zones may overlap
+}
+
+/**
+ * Thrown when a booking starts, stops or ends outside the service area.
+ */
+export class OutsideServiceAreaError extends Error {
+  constructor(readonly role: 'pickup' | 'stop' | 'dropoff', readonly point: Point, areaName: string) {
+    super(`Your ${role} is outside the service area. Tricycles only take bookings within ${areaName}.`);
+    this.name = 'OutsideServiceAreaError';
+  }
+}
+
+// GeoJSON positions are [longitude, latitude]
+function parseRing(ring: any, id: string): Point[] {
+  if (
+    !Array.isArray(ring) ||
+    ring.length < 4 ||
+    ring.some((position: any) => !Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number')
+  ) {
+    throw new Error(`Zone ${id} has a ring with fewer than 4 positions`);
+  }
+  // The first position is repeated at the end; isPointInPolygon doesn't need it
+  return ring.slice(0, -1).map((position: number[]) => ({ latitude: position[1], longitude: position[0] }));
+}
+
+/**
+ * Validates zones GeoJSON: a FeatureCollection of Polygon and MultiPolygon features with
+ * `id`, `name` and `kind` properties.
+ * @param data The parsed JSON.
+ * @returns The zones.
+ * @throws If the GeoJSON is malformed or two zones share an ID.
+ */
+export function parseServiceZones(data: any): Zone[] {
+  if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new Error('Service zones must be a GeoJSON FeatureCollection');
+  }
+
+  const ids = new Set<string>();
+  return data.features.map((feature: any, index: number) => {
+    const { id, name, kind } = feature?.properties ?? {};
+    if (typeof id !== 'string' || !id) {
+      throw new Error(`Zone feature ${index} needs an id property`);
+    }
+    if (ids.has(id)) {
+      throw new Error(`Zone ${id} is defined more than once`);
+    }
+    ids.add(id);
+    if (!ZONE_KINDS.includes(kind)) {
+      throw new Error(`Zone ${id} has unknown kind "${kind}"`);
+    }
+
+    const geometry = feature.geometry;
+    let polygons: Point[][][];
+    if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+      polygons = [geometry.coordinates.map((ring: any) => parseRing(ring, id))];
+    } else if (geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+      polygons = geometry.coordinates.map((polygon: any) => {
+        if (!Array.isArray(polygon)) throw new Error(`Zone ${id} has a malformed polygon`);
+        return polygon.map((ring: any) => parseRing(ring, id));
+      });
+    } else {
+      throw new Error(`Zone ${id} must be a Polygon or MultiPolygon`);
+    }
+    if (polygons.length === 0 || polygons.some(polygon => polygon.length === 0)) {
+      throw new Error(`Zone ${id} has an empty polygon`);
+    }
+
+    const outerPoints = polygons.flatMap(polygon => polygon[0]);
+    const latitudes = outerPoints.map(point => point.latitude);
+    const longitudes = outerPoints.map(point => point.longitude);
+    return {
+      id,
+      name: typeof name === 'string' && name ? name : id,
+      kind,
+      polygons,
+      bounds: {
+        north: Math.max(...latitudes),
+        south: Math.min(...latitudes),
+        east: Math.max(...longitudes),
+        west: Math.min(...longitudes),
+      },
+    };
+  });
+}
+
+function isPointInZone(point: Point, zone: Zone): boolean {
+  const { bounds } = zone;
+  if (
+    point.latitude < bounds.south || point.latitude > bounds.north ||
+    point.longitude < bounds.west || point.longitude > bounds.east
+  ) {
+    return false;
+  }
+  return zone.polygons.some(([outer, ...holes]) =>
+    isPointInPolygon(point, outer) && !holes.some(hole => isPointInPolygon(point, hole))
+  );
+}
+
+/**
+ * Point-in-polygon lookups over the service zones. The service area is the union of the
+ * 'city' zones; without any, every point is inside it.
+ */
+export class ZoneIndex {
+  private zonesById = new Map<string, Zone>();
+
+  constructor(readonly zones: Zone[]) {
+    zones.forEach(zone => this.zonesById.set(zone.id, zone));
+  }
+
+  getZone(id: string): Zone | undefined {
+    return this.zonesById.get(id);
+  }
+
+  /**
+   * Gets the zones of one kind, e.g. every barangay.
+   */
+  getZonesOfKind(kind: ZoneKind): Zone[] {
+    return this.zones.filter(zone => zone.kind === kind);
+  }
+
+  /**
+   * Finds every zone containing a point.
+   * @param point The point.
+   * @returns The zones, in the order of the GeoJSON.
+   */
+  getZonesAt(point: Point): Zone[] {
+    return this.zones.filter(zone => isPointInZone(point, zone));
+  }
+
+  /**
+   * Tags a point with the zones it lies in.
+   * @param point The point, e.g. a snapped pickup.
+   * @returns The zone IDs by kind.
+   */
+  tag(point: Point): ZoneTags {
+    const zones = this.getZonesAt(point);
+    return {
+      city: zones.find(zone => zone.kind === 'city')?.id ?? null,
+      barangay: zones.find(zone => zone.kind === 'barangay')?.id ?? null,
+      franchises: zones.filter(zone => zone.kind === 'franchise').map(zone => zone.id),
+    };
+  }
+
+  isInServiceArea(point: Point): boolean {
+    const cities = this.getZonesOfKind('city');
+    return cities.length === 0 || cities.some(city => isPointInZone(point, city));
+  }
+
+  /**
+   * Gets the box around the service area, e.g. for the offline road network extract.
+   * @returns The bounds, or null without 'city' zones.
+   */
+  getServiceAreaBounds(): RoadNetworkBounds | null {
+    const cities = this.getZonesOfKind('city');
+    if (cities.length === 0) return null;
+    return {
+      north: Math.max(...cities.map(city => city.bounds.north)),
+      south: Math.min(...cities.map(city => city.bounds.south)),
+      east: Math.max(...cities.map(city => city.bounds.east)),
+      west: Math.min(...cities.map(city => city.bounds.west)),
+    };
+  }
+
+  /**
+   * Tags the places of a booking, rejecting it if any lies outside the service area.
+   * @param pickup Where the commuter is picked up.
+   * @param dropoff Where the commuter is dropped off.
+   * @param stops Intermediate stops, in order.
+   * @returns The zone tags of each place.
+   * @throws OutsideServiceAreaError for the first place outside the service area.
+   */
+  tagBooking(pickup: Point, dropoff: Point, stops: Point[] = []): { pickup: ZoneTags; dropoff: ZoneTags; stops: ZoneTags[] } {
+    const areaName = this.getZonesOfKind('city').map(city => city.name).join(' and ') || 'the service area';
+    const check = (point: Point, role: 'pickup' | 'stop' | 'dropoff') => {
+      if (!this.isInServiceArea(point)) throw new OutsideServiceAreaError(role, point, areaName);
+      return this.tag(point);
+    };
+    return {
+      pickup: check(pickup, 'pickup'),
+      stops: stops.map(stop => check(stop, 'stop')),
+      dropoff: check(dropoff, 'dropoff'),
+    };
+  }
+}
+
+/**
+ * Loads zones GeoJSON from a file on the device or a URL, e.g. an updated franchise map.
+ * @param uri A `file://` URI (e.g. under FileSystem.documentDirectory) or an http(s) URL.
+ * @returns The zone index.
+ */
+export async function loadServiceZones(uri: string): Promise<ZoneIndex> {
+  if (/^https?:\/\//.test(uri)) {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch service zones: ${response.status}`);
+    }
+    return new ZoneIndex(parseServiceZones(await response.json()));
+  }
+  return new ZoneIndex(parseServiceZones(JSON.parse(await FileSystem.readAsStringAsync(uri))));
+}
+
+// Bundled zones for Naga City, see assets/data/naga-zones.json and scripts/build-zones.js
+export const DEFAULT_SERVICE_ZONES = new ZoneIndex(parseServiceZones(defaultZonesJson));
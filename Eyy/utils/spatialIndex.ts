@@ -0,0 +1,273 @@
+import type { Point } from './pathfinding';
+import type { CompactGraph } from './compactGraph';
+import { RouteTask, runTask } from './routeWorker';
+import { EARTH_RADIUS, calculateDistance } from './geo';
+
+// A graph node near a query point
+export interface NearbyNode {
+  nodeId: string;
+  index: number; // Node index in the compact graph
+  point: Point;
+  distance: number; // meters from the query point
+}
+
+// The closest position on a directed graph edge to a query point
+export interface NearbyEdge {
+  edge: number; // Edge index in the compact graph
+  fromId: string;
+  toId: string;
+  fraction: number; // 0 at `fromId`, 1 at `toId`
+  point: Point; // The closest position on the edge
+  distance: number; // meters from the query point
+}
+
+const METERS_PER_DEGREE = 111320;
+const DEFAULT_CELL_DEGREES = 0.002; // ~220 m cells
+
+// Nodes indexed between progress updates of a build task
+const INDEX_PROGRESS_STEP = 5000;
+
+// Cell coordinates are packed into one number; offsets keep them positive
+const CELL_OFFSET = 1 << 20;
+const CELL_SPAN = 1 << 22;
+
+/**
+ * Uniform grid over the road nodes and edges of a compact graph for nearest-neighbour and
+ * radius queries. Build it once per graph with `build` or `buildTask`; queries only look at
+ * the cells around the query point, growing ring by ring until no closer result is possible.
+ */
+export class SpatialIndex {
+  private nodeCells = new Map<number, number[]>();
+  private edgeCells = new Map<number, number[]>();
+  private edgeSources: Int32Array;
+  private minX = Infinity;
+  private maxX = -Infinity;
+  private minY = Infinity;
+  private maxY = -Infinity;
+
+  /**
+   * Indexes a graph.
+   * @param graph The graph to index.
+   * @param cellDegrees Grid cell size in degrees.
+   * @returns The index.
+   */
+  static build(graph: CompactGraph, cellDegrees: number = DEFAULT_CELL_DEGREES): SpatialIndex {
+    return runTask(SpatialIndex.buildTask(graph, cellDegrees));
+  }
+
+  /**
+   * Task form of `build`, for indexing a graph on a RouteExecutor.
+   */
+  static *buildTask(graph: CompactGraph, cellDegrees: number = DEFAULT_CELL_DEGREES): RouteTask<SpatialIndex> {
+    const index = new SpatialIndex(graph, cellDegrees);
+    yield* index.indexTask();
+    return index;
+  }
+
+  private constructor(readonly graph: CompactGraph, private cellDegrees: number) {
+    this.edgeSources = new Int32Array(graph.edgeCount);
+  }
+
+  private *indexTask(): RouteTask<void> {
+    const { graph } = this;
+    const { coordinates, offsets, targets, weights, edgeWayIds } = graph;
+
+    // Only roads from OSM ways are indexed, not nodes and edges added by hand (which have no
+    // way and may have no weight) or nodes of ways the vehicle profile can't use
+    const isRoadEdge = (edge: number) => !isNaN(edgeWayIds[edge]) && isFinite(weights[edge]);
+    const roadNodes = new Uint8Array(graph.nodeCount);
+    for (let node = 0; node < graph.nodeCount; node++) {
+      if (node % INDEX_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: node, total: graph.nodeCount };
+      }
+      for (let edge = offsets[node]; edge < offsets[node + 1]; edge++) {
+        if (isRoadEdge(edge)) {
+          roadNodes[node] = 1;
+          roadNodes[targets[edge]] = 1;
+        }
+      }
+    }
+
+    for (let node = 0; node < graph.nodeCount; node++) {
+      if (node % INDEX_PROGRESS_STEP === 0) {
+        yield { stage: 'graph', completed: node, total: graph.nodeCount };
+      }
+      const [x, y] = this.cellOf(coordinates[node * 2], coordinates[node * 2 + 1]);
+      if (roadNodes[node]) this.addToCell(this.nodeCells, x, y, node);
+
+      // Edges go in every cell of their bounding box
+      for (let edge = offsets[node]; edge < offsets[node + 1]; edge++) {
+        this.edgeSources[edge] = node;
+        if (!isRoadEdge(edge)) continue;
+        const target = targets[edge];
+        const [x2, y2] = this.cellOf(coordinates[target * 2], coordinates[target * 2 + 1]);
+        for (let cellX = Math.min(x, x2); cellX <= Math.max(x, x2); cellX++) {
+          for (let cellY = Math.min(y, y2); cellY <= Math.max(y, y2); cellY++) {
+            this.addToCell(this.edgeCells, cellX, cellY, edge);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Finds the nodes closest to a point.
+   * @param point The query point.
+   * @param k Maximum number of nodes returned.
+   * @param maxDistance Only nodes within this many meters are returned.
+   * @param filter Optional test a node index must pass, e.g. to skip nodes without edges.
+   * @returns Up to `k` nodes, nearest first.
+   */
+  nearestNodes(point: Point, k: number, maxDistance: number = Infinity, filter?: (index: number) => boolean): NearbyNode[] {
+    return this.searchRings(this.nodeCells, point, k, maxDistance, index => {
+      if (filter && !filter(index)) return null;
+      const nodePoint = this.graph.getPoint(index);
+      return { nodeId: this.graph.ids[index], index, point: nodePoint, distance: calculateDistance(point, nodePoint) };
+    });
+  }
+
+  /**
+   * Finds every node within a radius of a point.
+   * @param point The query point.
+   * @param radius The radius in meters.
+   * @param filter Optional test a node index must pass.
+   * @returns The nodes, nearest first.
+   */
+  nodesWithinRadius(point: Point, radius: number, filter?: (index: number) => boolean): NearbyNode[] {
+    return this.nearestNodes(point, Infinity, radius, filter);
+  }
+
+  /**
+   * Finds the directed edges closest to a point. Two-way roads have an edge in each
+   * direction, both at the same distance.
+   * @param point The query point.
+   * @param k Maximum number of edges returned.
+   * @param maxDistance Only edges within this many meters are returned.
+   * @returns Up to `k` edges with the closest position on each, nearest first.
+   */
+  nearestEdges(point: Point, k: number, maxDistance: number = Infinity): NearbyEdge[] {
+    return this.searchRings(this.edgeCells, point, k, maxDistance, edge => {
+      const from = this.edgeSources[edge];
+      const to = this.graph.targets[edge];
+      const projection = this.projectOnSegment(point, this.graph.getPoint(from), this.graph.getPoint(to));
+      return { edge, fromId: this.graph.ids[from], toId: this.graph.ids[to], ...projection };
+    });
+  }
+
+  /**
+   * Finds every directed edge that passes within a radius of a point.
+   * @param point The query point.
+   * @param radius The radius in meters.
+   * @returns The edges with the closest position on each, nearest first.
+   */
+  edgesWithinRadius(point: Point, radius: number): NearbyEdge[] {
+    return this.nearestEdges(point, Infinity, radius);
+  }
+
+  /**
+   * Visits cells in rings of growing distance around the point and stops once the ring
+   * is farther away than `maxDistance` or than the k-th closest result so far.
+   */
+  private searchRings<T extends { distance: number }>(
+    cells: Map<number, number[]>,
+    point: Point,
+    k: number,
+    maxDistance: number,
+    toResult: (item: number) => T | null
+  ): T[] {
+    if (cells.size === 0 || k <= 0) return [];
+
+    const [centerX, centerY] = this.cellOf(point.latitude, point.longitude);
+    // Cells are narrower east-west than north-south, so use the narrow side
+    const cellMeters = this.cellDegrees * METERS_PER_DEGREE * Math.min(1, Math.cos(point.latitude * Math.PI / 180));
+    const lastRing = Math.max(
+      Math.abs(centerX - this.minX), Math.abs(centerX - this.maxX),
+      Math.abs(centerY - this.minY), Math.abs(centerY - this.maxY)
+    );
+
+    const seen = new Set<number>();
+    const results: T[] = [];
+    const visit = (x: number, y: number) => {
+      for (const item of cells.get(this.cellKey(x, y)) ?? []) {
+        if (seen.has(item)) continue;
+        seen.add(item);
+        const result = toResult(item);
+        if (result && result.distance <= maxDistance) results.push(result);
+      }
+    };
+
+    // Rings that don't reach the indexed area are skipped
+    const firstRing = Math.max(0, this.minX - centerX, centerX - this.maxX, this.minY - centerY, centerY - this.maxY);
+    for (let ring = firstRing; ring <= lastRing; ring++) {
+      // Everything in this ring is at least this far away
+      const ringDistance = Math.max(0, ring - 1) * cellMeters;
+      if (ringDistance > maxDistance) break;
+      if (results.length >= k && ringDistance > results[k - 1].distance) break;
+
+      if (ring === 0) {
+        visit(centerX, centerY);
+      } else {
+        for (let x = Math.max(centerX - ring, this.minX); x <= Math.min(centerX + ring, this.maxX); x++) {
+          visit(x, centerY - ring);
+          visit(x, centerY + ring);
+        }
+        for (let y = Math.max(centerY - ring + 1, this.minY); y <= Math.min(centerY + ring - 1, this.maxY); y++) {
+          visit(centerX - ring, y);
+          visit(centerX + ring, y);
+        }
+      }
+      results.sort((a, b) => a.distance - b.distance);
+    }
+
+    return results.slice(0, k);
+  }
+
+  private addToCell(cells: Map<number, number[]>, x: number, y: number, item: number): void {
+    this.minX = Math.min(this.minX, x);
+    this.maxX = Math.max(this.maxX, x);
+    this.minY = Math.min(this.minY, y);
+    this.maxY = Math.max(this.maxY, y);
+    const key = this.cellKey(x, y);
+    const cell = cells.get(key);
+    if (cell) cell.push(item);
+    else cells.set(key, [item]);
+  }
+
+  private cellOf(latitude: number, longitude: number): [number, number] {
+    return [Math.floor(longitude / this.cellDegrees), Math.floor(latitude / this.cellDegrees)];
+  }
+
+  private cellKey(x: number, y: number): number {
+    return (x + CELL_OFFSET) * CELL_SPAN + (y + CELL_OFFSET);
+  }
+
+  /**
+   * Projects a point onto segment a-b using a local equirectangular approximation,
+   * which is accurate to well under a meter at street scale.
+   */
+  private projectOnSegment(point: Point, a: Point, b: Point): { fraction: number; point: Point; distance: number } {
+    const cosLat = Math.cos((point.latitude * Math.PI) / 180);
+    const toXY = (p: Point) => [
+      ((p.longitude - point.longitude) * Math.PI / 180) * EARTH_RADIUS * cosLat,
+      ((p.latitude - point.latitude) * Math.PI / 180) * EARTH_RADIUS,
+    ];
+    const [ax, ay] = toXY(a);
+    const [bx, by] = toXY(b);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+
+    const fraction = lengthSquared > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    const px = ax + fraction * dx;
+    const py = ay + fraction * dy;
+
+    return {
+      fraction,
+      point: {
+        latitude: a.latitude + fraction * (b.latitude - a.latitude),
+        longitude: a.longitude + fraction * (b.longitude - a.longitude),
+      },
+      distance: Math.sqrt(px * px + py * py),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import * as FileSystem from 'expo-file-system';
+import defaultProfileJson from '../assets/data/naga-traffic-profile.json';
+
+type DayKey =
+  | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
+  | 'weekday' | 'weekend';
+
+// Speed multipliers per hour bucket for a day (or group of days); see TrafficProfile.hourBuckets
+type DailyMultipliers = { [day in DayKey]?: number[] };
+
+/**
+ * Time-of-day traffic for the road network. Multipliers scale free-flow speeds:
+ * 1 is free flow, 0.5 means traffic moves at half the speed (trips take twice as long).
+ * For each road the most specific entry wins: the way, then its road class, then `default`;
+ * within an entry, the day name wins over `weekday`/`weekend`.
+ */
+export interface TrafficProfile {
+  version: number;
+  hourBuckets: number[]; // Start hour (0-23) of each bucket, ascending and starting at 0
+  default?: DailyMultipliers;
+  roadClasses: { [highway: string]: DailyMultipliers };
+  ways?: { [wayIdOrName: string]: DailyMultipliers }; // Keyed by OSM way ID or road `name`
+}
+
+interface WayInfo {
+  id?: number;
+  tags: { highway?: string; name?: string; [key: string]: string | undefined };
+}
+
+const DAY_NAMES: DayKey[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Traffic never makes a road faster than free flow, which keeps the A* heuristic admissible
+const MIN_MULTIPLIER = 0.05;
+const MAX_MULTIPLIER = 1;
+
+/**
+ * Validates profile JSON, e.g. calibrated from completed trips.
+ * @param data The parsed JSON.
+ * @returns The profile.
+ * @throws If the profile is malformed.
+ */
+export function parseTrafficProfile(data: any): TrafficProfile {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Traffic profile must be an object');
+  }
+
+  const { hourBuckets } = data;
+  if (
+    !Array.isArray(hourBuckets) ||
+    hourBuckets[0] !== 0 ||
+    hourBuckets.some((hour: any, i: number) => typeof hour !== 'number' || hour < 0 || hour > 23 || (i > 0 && hour <= hourBuckets[i - 1]))
+  ) {
+    throw new Error('Traffic profile hourBuckets must be ascending hours starting at 0');
+  }
+
+  const checkEntries = (entries: any, section: string) => {
+    Object.entries(entries ?? {}).forEach(([key, daily]: [string, any]) => {
+      Object.entries(daily ?? {}).forEach(([day, multipliers]: [string, any]) => {
+        if (!DAY_NAMES.includes(day as DayKey) && day !== 'weekday' && day !== 'weekend') {
+          throw new Error(`Traffic profile ${section}.${key} has unknown day "${day}"`);
+        }
+        if (
+          !Array.isArray(multipliers) ||
+          multipliers.length !== hourBuckets.length ||
+          multipliers.some((m: any) => typeof m !== 'number' || m <= 0)
+        ) {
+          throw new Error(`Traffic profile ${section}.${key}.${day} needs ${hourBuckets.length} positive multipliers`);
+        }
+      });
+    });
+  };
+
+  checkEntries({ default: data.default }, 'default');
+  checkEntries(data.roadClasses, 'roadClasses');
+  checkEntries(data.ways, 'ways');
+
+  return {
+    version: typeof data.version === 'number' ? data.version : 0,
+    hourBuckets,
+    default: data.default,
+    roadClasses: data.roadClasses ?? {},
+    ways: data.ways,
+  };
+}
+
+/**
+ * Loads a traffic profile from a JSON file on the device or a URL.
+ * @param uri A `file://` URI (e.g. under FileSystem.documentDirectory) or an http(s) URL.
+ * @returns The validated profile.
+ */
+export async function loadTrafficProfile(uri: string): Promise<TrafficProfile> {
+  if (/^https?:\/\//.test(uri)) {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch traffic profile: ${response.status}`);
+    }
+    return parseTrafficProfile(await response.json());
+  }
+  return parseTrafficProfile(JSON.parse(await FileSystem.readAsStringAsync(uri)));
+}
+
+// Bundled profile for Naga City, see assets/data/naga-traffic-profile.json
+export const DEFAULT_TRAFFIC_PROFILE: TrafficProfile = parseTrafficProfile(defaultProfileJson);
+
+function pickDaily(daily: DailyMultipliers | undefined, day: number): number[] | undefined {
+  if (!daily) return undefined;
+  return daily[DAY_NAMES[day]] ?? (day === 0 || day === 6 ? daily.weekend : daily.weekday);
+}
+
+/**
+ * Speed multiplier for a road at a given time.
+ * @param profile The traffic profile.
+ * @param way The OSM way (its ID and tags).
+ * @param time When the road is driven, in the device's local time.
+ * @returns A multiplier in (0, 1]; 1 when the profile has no entry for the road.
+ */
+export function getTrafficMultiplier(profile: TrafficProfile, way: WayInfo, time: Date): number {
+  const day = time.getDay();
+  const hour = time.getHours();
+
+  let bucket = 0;
+  while (bucket + 1 < profile.hourBuckets.length && profile.hourBuckets[bucket + 1] <= hour) {
+    bucket++;
+  }
+
+  const multipliers =
+    (way.id !== undefined ? pickDaily(profile.ways?.[way.id], day) : undefined) ??
+    (way.tags.name ? pickDaily(profile.ways?.[way.tags.name], day) : undefined) ??
+    (way.tags.highway ? pickDaily(profile.roadClasses[way.tags.highway], day) : undefined) ??
+    pickDaily(profile.default, day);
+
+  const multiplier = multipliers?.[bucket] ?? 1;
+  return Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, multiplier));
+}
@@ -0,0 +1,292 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { Point } from './pathfinding';
+import type { TracePoint } from './mapMatching';
+
+export interface TripPlace extends Point {
+  address?: string;
+}
+
+/**
+ * A planned route and/or a recorded trip, for disputes and trip analysis.
+ */
+export interface TripExport {
+  name: string;
+  route?: Point[]; // Planned route, e.g. from getDetailedPathCoordinates
+  trace?: TracePoint[]; // Recorded GPS fixes with timestamps (ms since epoch)
+  matchedRoute?: Point[]; // The recorded trace matched onto the roads, see MapMatcher
+  matchedDistance?: number; // kilometers driven along the matched route
+  pickup?: TripPlace;
+  dropoff?: TripPlace;
+  stops?: TripPlace[];
+  fare?: number; // pesos
+  distance?: number; // kilometers
+  estimatedTime?: number; // minutes
+}
+
+export type TripExportFormat = 'gpx' | 'geojson';
+
+// GPX track type of the matched route, so it isn't read back as recorded fixes
+const MATCHED_TRACK_TYPE = 'matched';
+
+// Recorded trips are kept here as GPX, newest last by name
+export const TRIPS_DIRECTORY = `${FileSystem.documentDirectory}trips/`;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function describeTrip(trip: TripExport): string {
+  const parts: string[] = [];
+  if (trip.distance !== undefined) parts.push(`Distance: ${trip.distance.toFixed(2)} km`);
+  if (trip.estimatedTime !== undefined) parts.push(`Estimated time: ${Math.round(trip.estimatedTime)} min`);
+  if (trip.fare !== undefined) parts.push(`Fare: PHP ${trip.fare.toFixed(2)}`);
+  if (trip.matchedDistance !== undefined) parts.push(`Driven: ${trip.matchedDistance.toFixed(2)} km`);
+  return parts.join(', ');
+}
+
+/**
+ * Serializes a trip as GPX 1.1: pickup, stops and dropoff as waypoints, the planned
+ * route as a `rte`, the recorded trace as a `trk` with fix times and the matched route
+ * as a second `trk` of type "matched".
+ * @param trip The trip.
+ * @returns The GPX document.
+ */
+export function toGpx(trip: TripExport): string {
+  const description = describeTrip(trip);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Eyytrike" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(trip.name)}</name>`,
+    ...(description ? [`    <desc>${escapeXml(description)}</desc>`] : []),
+    `    <time>${new Date(trip.trace?.[0]?.timestamp ?? Date.now()).toISOString()}</time>`,
+    '  </metadata>',
+  ];
+
+  const waypoint = (place: TripPlace, name: string, type: string) => {
+    lines.push(`  <wpt lat="${place.latitude}" lon="${place.longitude}">`);
+    lines.push(`    <name>${escapeXml(name)}</name>`);
+    if (place.address) lines.push(`    <desc>${escapeXml(place.address)}</desc>`);
+    lines.push(`    <type>${type}</type>`);
+    lines.push('  </wpt>');
+  };
+  if (trip.pickup) waypoint(trip.pickup, 'Pickup', 'pickup');
+  trip.stops?.forEach((stop, index) => waypoint(stop, `Stop ${index + 1}`, 'stop'));
+  if (trip.dropoff) waypoint(trip.dropoff, 'Dropoff', 'dropoff');
+
+  if (trip.route && trip.route.length > 0) {
+    lines.push('  <rte>');
+    lines.push('    <name>Planned route</name>');
+    if (description) lines.push(`    <desc>${escapeXml(description)}</desc>`);
+    trip.route.forEach(point => lines.push(`    <rtept lat="${point.latitude}" lon="${point.longitude}"/>`));
+    lines.push('  </rte>');
+  }
+
+  if (trip.trace && trip.trace.length > 0) {
+    lines.push('  <trk>');
+    lines.push('    <name>Recorded trip</name>');
+    lines.push('    <trkseg>');
+    trip.trace.forEach(point => {
+      if (point.timestamp === undefined) {
+        lines.push(`      <trkpt lat="${point.latitude}" lon="${point.longitude}"/>`);
+      } else {
+        lines.push(`      <trkpt lat="${point.latitude}" lon="${point.longitude}">`);
+        lines.push(`        <time>${new Date(point.timestamp).toISOString()}</time>`);
+        lines.push('      </trkpt>');
+      }
+    });
+    lines.push('    </trkseg>');
+    lines.push('  </trk>');
+  }
+
+  if (trip.matchedRoute && trip.matchedRoute.length > 0) {
+    lines.push('  <trk>');
+    lines.push('    <name>Matched trip</name>');
+    if (trip.matchedDistance !== undefined) lines.push(`    <desc>Driven: ${trip.matchedDistance.toFixed(2)} km</desc>`);
+    lines.push(`    <type>${MATCHED_TRACK_TYPE}</type>`);
+    lines.push('    <trkseg>');
+    trip.matchedRoute.forEach(point => lines.push(`      <trkpt lat="${point.latitude}" lon="${point.longitude}"/>`));
+    lines.push('    </trkseg>');
+    lines.push('  </trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+}
+
+/**
+ * Serializes a trip as a GeoJSON FeatureCollection. The planned route, the recorded
+ * trace and the matched route are LineStrings (the trace keeps its fix times in
+ * `coordTimes`), pickup, stops and dropoff are Points; fare, distance and time are
+ * properties of the route, the driven distance a property of the matched route.
+ * @param trip The trip.
+ * @returns The FeatureCollection.
+ */
+export function toGeoJson(trip: TripExport): object {
+  const toPosition = (point: Point) => [point.longitude, point.latitude];
+  const features: object[] = [];
+
+  if (trip.route && trip.route.length > 1) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: trip.route.map(toPosition) },
+      properties: {
+        kind: 'route',
+        name: trip.name,
+        fare: trip.fare,
+        distance: trip.distance,
+        estimatedTime: trip.estimatedTime,
+      },
+    });
+  }
+
+  if (trip.trace && trip.trace.length > 1) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: trip.trace.map(toPosition) },
+      properties: {
+        kind: 'trace',
+        coordTimes: trip.trace.map(point => point.timestamp !== undefined ? new Date(point.timestamp).toISOString() : null),
+      },
+    });
+  }
+
+  if (trip.matchedRoute && trip.matchedRoute.length > 1) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: trip.matchedRoute.map(toPosition) },
+      properties: { kind: 'matched', distance: trip.matchedDistance },
+    });
+  }
+
+  const place = (point: TripPlace, kind: string, index?: number) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: toPosition(point) },
+    properties: { kind, address: point.address, ...(index !== undefined ? { index } : {}) },
+  });
+  if (trip.pickup) features.push(place(trip.pickup, 'pickup'));
+  trip.stops?.forEach((stop, index) => features.push(place(stop, 'stop', index + 1)));
+  if (trip.dropoff) features.push(place(trip.dropoff, 'dropoff'));
+
+  return {
+    type: 'FeatureCollection',
+    properties: { name: trip.name, fare: trip.fare, distance: trip.distance, matchedDistance: trip.matchedDistance },
+    features,
+  };
+}
+
+/**
+ * Reads the points of a GPX document: the track points, or the route points when it
+ * has no track (e.g. a planned route exported by us). Matched routes saved with a
+ * trip are skipped.
+ * @param gpx The GPX document.
+ * @returns The points with their timestamps, if any.
+ * @throws If the document has no points.
+ */
+export function parseGpx(gpx: string): TracePoint[] {
+  const recorded = gpx.replace(/<trk\b[\s\S]*?<\/trk>/g, track =>
+    new RegExp(`<type>\\s*${MATCHED_TRACK_TYPE}\\s*</type>`).test(track) ? '' : track
+  );
+  const readPoints = (tag: 'trkpt' | 'rtept') => {
+    const points: TracePoint[] = [];
+    const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(recorded)) !== null) {
+      const lat = parseFloat(/\blat\s*=\s*["']([^"']+)["']/.exec(match[1])?.[1] ?? '');
+      const lon = parseFloat(/\blon\s*=\s*["']([^"']+)["']/.exec(match[1])?.[1] ?? '');
+      if (isNaN(lat) || isNaN(lon)) continue;
+
+      const time = /<time>([^<]+)<\/time>/.exec(match[2] ?? '')?.[1];
+      const timestamp = time ? Date.parse(unescapeXml(time.trim())) : NaN;
+      points.push({ latitude: lat, longitude: lon, ...(isNaN(timestamp) ? {} : { timestamp }) });
+    }
+    return points;
+  };
+
+  const points = readPoints('trkpt');
+  const result = points.length > 0 ? points : readPoints('rtept');
+  if (result.length === 0) {
+    throw new Error('GPX file has no track or route points');
+  }
+  return result;
+}
+
+/**
+ * Loads a GPX trace from a file on the device or a URL, for replay on the map.
+ * @param uri A `file://` URI or an http(s) URL.
+ * @returns The trace points.
+ */
+export async function loadGpxTrace(uri: string): Promise<TracePoint[]> {
+  if (/^https?:\/\//.test(uri)) {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch GPX file: ${response.status}`);
+    }
+    return parseGpx(await response.text());
+  }
+  return parseGpx(await FileSystem.readAsStringAsync(uri));
+}
+
+/**
+ * Saves a recorded trip as GPX under TRIPS_DIRECTORY.
+ * @param trip The trip.
+ * @returns The URI of the saved file.
+ */
+export async function saveTrip(trip: TripExport): Promise<string> {
+  await FileSystem.makeDirectoryAsync(TRIPS_DIRECTORY, { intermediates: true });
+  const uri = `${TRIPS_DIRECTORY}trip-${Date.now()}.gpx`;
+  await FileSystem.writeAsStringAsync(uri, toGpx(trip));
+  return uri;
+}
+
+/**
+ * Lists the saved trips, newest first.
+ * @returns The file URIs.
+ */
+export async function listSavedTrips(): Promise<string[]> {
+  const info = await FileSystem.getInfoAsync(TRIPS_DIRECTORY);
+  if (!info.exists) return [];
+  const files = await FileSystem.readDirectoryAsync(TRIPS_DIRECTORY);
+  return files
+    .filter(file => file.endsWith('.gpx'))
+    .sort()
+    .reverse()
+    .map(file => `${TRIPS_DIRECTORY}${file}`);
+}
+
+/**
+ * Writes a trip to a temporary file and opens the system share sheet for it.
+ * @param trip The trip.
+ * @param format 'gpx' or 'geojson'.
+ */
+export async function shareTrip(trip: TripExport, format: TripExportFormat): Promise<void> {
+  const content = format === 'gpx' ? toGpx(trip) : JSON.stringify(toGeoJson(trip), null, 2);
+  const fileName = `${trip.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'trip'}.${format}`;
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content);
+
+  // Share the file itself so receivers can open it as a .gpx or .geojson file
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: format === 'gpx' ? 'application/gpx+xml' : 'application/geo+json',
+    UTI: format === 'gpx' ? 'com.topografix.gpx' : 'public.json',
+    dialogTitle: trip.name,
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * Vehicle routing profiles. A profile decides which roads a vehicle may use,
+ * how fast it travels on each road type and which roads it should avoid.
+ */
+export interface VehicleProfile {
+  name: string;
+  speeds: { [highway: string]: number }; // km/h per OSM highway type
+  defaultSpeed: number; // km/h for highway types missing from `speeds`
+  maxSpeed: number; // km/h cap applied to `maxspeed` tags
+  forbiddenRoadTypes: string[]; // highway types the vehicle may not use at all
+  penalties: { [highway: string]: number }; // travel time multipliers for discouraged road types
+  restrictedRefPattern?: RegExp; // `ref` tags of roads treated as discouraged (e.g. national roads)
+  restrictedRefPenalty?: number; // travel time multiplier for roads matching `restrictedRefPattern`
+  allowedRoadNames: string[]; // roads exempt from the forbidden/penalty rules, matched by `name`
+}
+
+interface WayTags {
+  highway?: string;
+  name?: string;
+  ref?: string;
+  [key: string]: string | undefined;
+}
+
+export const CAR_PROFILE: VehicleProfile = {
+  name: 'car',
+  speeds: {
+    motorway: 100,
+    trunk: 80,
+    primary: 60,
+    secondary: 50,
+    tertiary: 40,
+    residential: 30,
+    service: 20,
+    unclassified: 30, // Default for unclassified roads
+    living_street: 15 // Lower speed for living streets
+  },
+  defaultSpeed: 40,
+  maxSpeed: 120,
+  forbiddenRoadTypes: [],
+  penalties: {},
+  allowedRoadNames: [],
+};
+
+// Tricycles are barred from national highways and major through-roads in the Philippines
+export const TRICYCLE_PROFILE: VehicleProfile = {
+  name: 'tricycle',
+  speeds: {
+    primary: 35,
+    primary_link: 30,
+    secondary: 35,
+    secondary_link: 30,
+    tertiary: 30,
+    tertiary_link: 25,
+    residential: 25,
+    service: 15,
+    unclassified: 25,
+    living_street: 10
+  },
+  defaultSpeed: 25,
+  maxSpeed: 40,
+  forbiddenRoadTypes: ['motorway', 'motorway_link', 'trunk', 'trunk_link'],
+  penalties: {
+    primary: 3,
+    primary_link: 3,
+  },
+  restrictedRefPattern: /^(AH|N)\d+/i, // Asian Highway and national road numbers
+  restrictedRefPenalty: 5,
+  allowedRoadNames: [],
+};
+
+export const VEHICLE_PROFILES: { [name: string]: VehicleProfile } = {
+  car: CAR_PROFILE,
+  tricycle: TRICYCLE_PROFILE,
+};
+
+/**
+ * Creates a copy of a profile with additional road names exempt from its restrictions,
+ * e.g. national road stretches where the city franchise allows tricycles.
+ * @param profile The base profile.
+ * @param roadNames Road names (OSM `name` tags) to allow.
+ */
+export function withAllowedRoads(profile: VehicleProfile, roadNames: string[]): VehicleProfile {
+  return {
+    ...profile,
+    allowedRoadNames: [...profile.allowedRoadNames, ...roadNames],
+  };
+}
+
+/**
+ * Identifies a profile by everything that shapes the graph built for it, so profiles
+ * that share a name but route differently (e.g. from `withAllowedRoads`) get different keys.
+ * @param profile The profile.
+ * @returns A key safe to use in file names, e.g. 'tricycle-1x2y3z'.
+ */
+export function getProfileKey(profile: VehicleProfile): string {
+  const routing = JSON.stringify([
+    profile.speeds,
+    profile.defaultSpeed,
+    profile.maxSpeed,
+    [...profile.forbiddenRoadTypes].sort(),
+    profile.penalties,
+    profile.restrictedRefPattern?.toString() ?? null,
+    profile.restrictedRefPenalty ?? null,
+    profile.allowedRoadNames.map(name => name.trim().toLowerCase()).sort(),
+  ]);
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < routing.length; i++) {
+    hash ^= routing.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const name = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return `${name}-${(hash >>> 0).toString(36)}`;
+}
+
+function isAllowedByName(profile: VehicleProfile, tags: WayTags): boolean {
+  const name = tags.name?.trim().toLowerCase();
+  return !!name && profile.allowedRoadNames.some(allowed => allowed.trim().toLowerCase() === name);
+}
+
+/**
+ * Checks whether the profile may use a way at all.
+ */
+export function isWayAllowed(profile: VehicleProfile, tags: WayTags): boolean {
+  if (!tags.highway) return false;
+  if (isAllowedByName(profile, tags)) return true;
+  return !profile.forbiddenRoadTypes.includes(tags.highway);
+}
+
+/**
+ * Travel time multiplier for a way (1 for roads without a penalty).
+ */
+export function getWayPenalty(profile: VehicleProfile, tags: WayTags): number {
+  if (!tags.highway || isAllowedByName(profile, tags)) return 1;
+
+  let penalty = profile.penalties[tags.highway] ?? 1;
+  if (profile.restrictedRefPattern && tags.ref && profile.restrictedRefPattern.test(tags.ref)) {
+    penalty = Math.max(penalty, profile.restrictedRefPenalty ?? 1);
+  }
+  return penalty;
+}
+
+/**
+ * Speed of the profile on a road type, in km/h.
+ */
+export function getProfileSpeed(profile: VehicleProfile, highway: string | undefined): number {
+  return (highway && profile.speeds[highway]) || profile.defaultSpeed;
+}
@@ -1,5 +1,38 @@
 const mongoose = require('mongoose');
 
+// Zones a place lies in, looked up by the server when the ride is booked
+const zoneSchema = new mongoose.Schema({
+  city: {
+    type: String,
+    default: null
+  },
+  barangay: {
+    type: String,
+    default: null
+  },
+  franchises: {
+    type: [String],
+    default: []
+  }
+}, { _id: false });
+
+const stopSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['Point'],
+    default: 'Point'
+  },
+  coordinates: {
+    type: [Number],
+    required: true
+  },
+  address: {
+    type: String,
+    required: true
+  },
+  zone: zoneSchema
+}, { _id: false });
+
 const rideSchema = new mongoose.Schema({
   passenger: {
     type: mongoose.Schema.Types.ObjectId,
@@ -23,7 +56,8 @@ const rideSchema = new mongoose.Schema({
     address: {
       type: String,
       required: true
-    }
+    },
+    zone: zoneSchema
   },
   dropoffLocation: {
     type: {
@@ -38,6 +72,19 @@ const rideSchema = new mongoose.Schema({
     address: {
       type: String,
       required: true
+    },
+    zone: zoneSchema
+  },
+  // Intermediate stops between pickup and dropoff, in visiting order
+  stops: [stopSchema],
+  // Route quoted to the commuter, as a Google encoded polyline
+  route: {
+    polyline: {
+      type: String
+    },
+    precision: {
+      type: Number,
+      default: 5
     }
   },
   status: {
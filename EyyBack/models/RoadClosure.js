@@ -0,0 +1,72 @@
+const mongoose = require('mongoose');
+
+const pointSchema = new mongoose.Schema({
+  latitude: {
+    type: Number,
+    required: true
+  },
+  longitude: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+// A closed road or flooded area; the app stops routing through it while active
+const roadClosureSchema = new mongoose.Schema({
+  kind: {
+    type: String,
+    enum: ['closed', 'avoid'],
+    default: 'closed'
+  },
+  reason: {
+    type: String,
+    trim: true
+  },
+  // Closed area, first point not repeated at the end
+  polygon: {
+    type: [pointSchema],
+    default: undefined,
+    validate: {
+      validator: (points) => !points || points.length >= 3,
+      message: 'A closure polygon needs at least 3 points'
+    }
+  },
+  // OSM way IDs closed along their whole length
+  wayIds: {
+    type: [Number],
+    default: undefined
+  },
+  // Cost multiplier for 'avoid' closures
+  penalty: {
+    type: Number,
+    min: 1
+  },
+  startsAt: {
+    type: Date
+  },
+  endsAt: {
+    type: Date
+  },
+  reportedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+roadClosureSchema.pre('validate', function(next) {
+  if (!this.polygon?.length && !this.wayIds?.length) {
+    return next(new Error('A closure needs a polygon or way IDs'));
+  }
+  if (this.startsAt && this.endsAt && this.endsAt <= this.startsAt) {
+    return next(new Error('A closure must end after it starts'));
+  }
+  next();
+});
+
+roadClosureSchema.index({ endsAt: 1 });
+
+const RoadClosure = mongoose.model('RoadClosure', roadClosureSchema);
+
+module.exports = RoadClosure;
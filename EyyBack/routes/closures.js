@@ -0,0 +1,73 @@
+const express = require('express');
+const router = express.Router();
+const RoadClosure = require('../models/RoadClosure');
+const auth = require('../middleware/auth');
+
+// Active and scheduled closures; expired ones are left out
+router.get('/', auth, async (req, res) => {
+  try {
+    const closures = await RoadClosure.find({
+      $or: [{ endsAt: { $exists: false } }, { endsAt: null }, { endsAt: { $gt: new Date() } }]
+    }).sort({ createdAt: -1 });
+
+    res.json(closures);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Report a closure or flooded area
+router.post('/', auth, async (req, res) => {
+  try {
+    if (req.user.role !== 'driver') {
+      return res.status(403).json({ error: 'Only drivers can report road closures' });
+    }
+
+    const { kind, reason, polygon, wayIds, penalty, startsAt, endsAt } = req.body;
+    const closure = new RoadClosure({
+      kind,
+      reason,
+      polygon,
+      wayIds,
+      penalty,
+      startsAt,
+      endsAt,
+      reportedBy: req.user._id,
+    });
+    await closure.save();
+
+    const io = req.app.get('io');
+    if (io && typeof io.emit === 'function') {
+      io.emit('roadClosureAdded', closure);
+    }
+
+    res.status(201).json(closure);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Lift a closure
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const closure = await RoadClosure.findById(req.params.id);
+    if (!closure) return res.status(404).json({ error: 'Road closure not found' });
+
+    if (req.user._id.toString() !== closure.reportedBy?.toString()) {
+      return res.status(403).json({ error: 'Not authorized' });
+    }
+
+    await closure.deleteOne();
+
+    const io = req.app.get('io');
+    if (io && typeof io.emit === 'function') {
+      io.emit('roadClosureRemoved', { id: closure._id });
+    }
+
+    res.json({ id: closure._id });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -3,6 +3,7 @@ const router = express.Router();
 const Ride = require('../models/Ride');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { tagBooking } = require('../utils/serviceZones');
 
 // Create new ride request
 router.post('/', auth, async (req, res) => {
@@ -20,8 +21,20 @@ router.post('/', auth, async (req, res) => {
       });
     }
 
+    // The app checks the service area too, but API callers can skip that check
+    let zones;
+    try {
+      zones = tagBooking(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const { pickupLocation, dropoffLocation, stops = [] } = req.body;
     const ride = new Ride({
       ...req.body,
+      pickupLocation: { ...pickupLocation, zone: zones.pickup },
+      dropoffLocation: { ...dropoffLocation, zone: zones.dropoff },
+      stops: stops.map((stop, index) => ({ ...stop, zone: zones.stops[index] })),
       passenger: req.user._id,
     });
     await ride.save();
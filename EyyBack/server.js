@@ -4,8 +4,10 @@ const bodyParser = require('body-parser');
 const mongoose = require('mongoose');
 const jwt = require('jsonwebtoken');
 const http = require('http');
+const path = require('path');
 const { Server } = require('socket.io');
 const User = require('./models/User');
+const Ride = require('./models/Ride');
 require('dotenv').config();
 
 // Check environment variables
@@ -48,12 +50,31 @@ mongoose.connect(process.env.MONGODB_URI, {
 const authRoutes = require('./routes/auth');
 const userRoutes = require('./routes/users');
 const rideRoutes = require('./routes/rides');
+const closureRoutes = require('./routes/closures');
 
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/rides', rideRoutes);
+app.use('/api/closures', closureRoutes);
+
+// Offline road network extracts published with `node scripts/build-road-network.js --out`
+app.use('/road-network', express.static(path.join(__dirname, 'data', 'road-network')));
 
 // Socket.IO setup
+// Clients may send their JWT as `auth: { token }`; the socket then acts as that user
+io.use(async (socket, next) => {
+  const token = socket.handshake.auth?.token;
+  if (!token) return next();
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    socket.user = await User.findOne({ _id: decoded._id });
+  } catch (err) {
+    console.warn('Socket authentication failed:', err.message);
+  }
+  next();
+});
+
 io.on('connection', (socket) => {
   console.log('✅ Client connected:', socket.id);
 
@@ -89,6 +110,33 @@ io.on('connection', (socket) => {
     }
   });
 
+  // The route of a ride changed, e.g. the driver was rerouted; `route` is an encoded polyline.
+  // Only the ride's commuter or driver may change it.
+  socket.on('rideRouteUpdate', async ({ rideId, route }) => {
+    try {
+      if (!rideId || typeof route?.polyline !== 'string') {
+        return socket.emit('error', { message: 'Invalid route update' });
+      }
+
+      const ride = await Ride.findById(rideId);
+      if (!ride) {
+        return socket.emit('error', { message: 'Ride not found' });
+      }
+
+      const userId = socket.user?._id.toString();
+      if (!userId || (userId !== ride.passenger?.toString() && userId !== ride.driver?.toString())) {
+        return socket.emit('error', { message: 'Not authorized to update this ride' });
+      }
+
+      ride.route = route;
+      await ride.save();
+      io.to(`ride_${rideId}`).emit('rideRouteChanged', { rideId, route: ride.route });
+    } catch (err) {
+      console.error('Route update error:', err);
+      socket.emit('error', { message: 'Failed to update route' });
+    }
+  });
+
   socket.on('disconnect', () => {
     console.log('❌ Client disconnected:', socket.id);
   });
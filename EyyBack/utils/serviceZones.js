@@ -0,0 +1,79 @@
+const fs = require('fs');
+const path = require('path');
+
+// The app's bundled zones (Eyy/assets/data/naga-zones.json, built by scripts/build-zones.js)
+const DEFAULT_ZONES_PATH = path.join(__dirname, '..', '..', 'Eyy', 'assets', 'data', 'naga-zones.json');
+
+let zones = null;
+
+// Ray casting over GeoJSON [longitude, latitude] positions, like isPointInPolygon in the app
+function isInRing(position, ring) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > position[1]) !== (yj > position[1]) && position[0] < ((xj - xi) * (position[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function isInZone(position, zone) {
+  return zone.polygons.some(([outer, ...holes]) => isInRing(position, outer) && !holes.some((hole) => isInRing(position, hole)));
+}
+
+function loadZones() {
+  if (zones) return zones;
+
+  const data = JSON.parse(fs.readFileSync(process.env.SERVICE_ZONES_PATH || DEFAULT_ZONES_PATH, 'utf8'));
+  zones = data.features.map((feature) => ({
+    id: feature.properties.id,
+    name: feature.properties.name || feature.properties.id,
+    kind: feature.properties.kind,
+    polygons: feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates,
+  }));
+  return zones;
+}
+
+// Tags a GeoJSON point with the zones it lies in, like ZoneIndex.tag in the app
+function tagPosition(position) {
+  const found = loadZones().filter((zone) => isInZone(position, zone));
+  return {
+    city: found.find((zone) => zone.kind === 'city')?.id ?? null,
+    barangay: found.find((zone) => zone.kind === 'barangay')?.id ?? null,
+    franchises: found.filter((zone) => zone.kind === 'franchise').map((zone) => zone.id),
+  };
+}
+
+/**
+ * Tags the places of a booking with their zones. Clients send tags too, but the
+ * server's own lookup is the one saved.
+ * @param booking The ride request body, with GeoJSON `pickupLocation`, `dropoffLocation` and `stops`.
+ * @returns The zone tags of each place.
+ * @throws If a place has no coordinates or lies outside the service area (the 'city' zones).
+ */
+function tagBooking({ pickupLocation, dropoffLocation, stops = [] }) {
+  const cities = loadZones().filter((zone) => zone.kind === 'city');
+  const areaName = cities.map((city) => city.name).join(' and ') || 'the service area';
+
+  const check = (place, role) => {
+    const position = place?.coordinates;
+    if (!Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number') {
+      throw new Error(`The ${role} has no coordinates.`);
+    }
+    const tags = tagPosition(position);
+    if (cities.length > 0 && !tags.city) {
+      throw new Error(`Your ${role} is outside the service area. Tricycles only take bookings within ${areaName}.`);
+    }
+    return tags;
+  };
+
+  return {
+    pickup: check(pickupLocation, 'pickup'),
+    stops: stops.map((stop) => check(stop, 'stop')),
+    dropoff: check(dropoffLocation, 'dropoff'),
+  };
+}
+
+module.exports = { tagBooking };